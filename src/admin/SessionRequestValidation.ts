@@ -0,0 +1,235 @@
+import {
+  CreateSessionRequest,
+  ELIMINATION_STRATEGY,
+  RescheduleSessionRequest,
+  LOBBY_DISTRIBUTION_STRATEGY,
+  PRIZE_REMAINDER,
+  PRIZE_SPLIT,
+  ValidationResult,
+  VOTE_NON_VOTER_DEFAULT,
+  VOTE_TIE_BREAK,
+} from "../types";
+import { buildRoundTimeline } from "../round/RoundTimeline";
+
+type Check = (value: unknown) => string | null; // Returns the problem, or null if valid
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const string =
+  (maxLength = Infinity): Check =>
+  (value) =>
+    typeof value !== "string" || value.trim() === ""
+      ? "must be a non-empty string"
+      : value.length > maxLength
+        ? `must be at most ${maxLength} characters`
+        : null;
+
+const integer =
+  (min: number, max = Number.MAX_SAFE_INTEGER): Check =>
+  (value) =>
+    typeof value !== "number" || !Number.isInteger(value)
+      ? "must be an integer"
+      : value < min || value > max
+        ? `must be between ${min} and ${max}`
+        : null;
+
+const percent: Check = (value) =>
+  typeof value !== "number" || !Number.isFinite(value) || value < 0 || value > 100
+    ? "must be a number between 0 and 100"
+    : null;
+
+const boolean: Check = (value) =>
+  typeof value !== "boolean" ? "must be a boolean" : null;
+
+const isoDate: Check = (value) =>
+  typeof value !== "string" || Number.isNaN(new Date(value).getTime())
+    ? "must be an ISO 8601 date string"
+    : null;
+
+const digits: Check = (value) =>
+  typeof value !== "string" || !/^\d+$/.test(value)
+    ? "must be a string of digits (token base units)"
+    : null;
+
+const nullable =
+  (check: Check): Check =>
+  (value) =>
+    value === null ? null : check(value);
+
+const oneOf =
+  (values: readonly string[]): Check =>
+  (value) =>
+    typeof value !== "string" || !values.includes(value)
+      ? `must be one of ${values.join(", ")}`
+      : null;
+
+// Options of a nested config object; `required` lists the keys it can't omit
+const object =
+  (fields: Record<string, Check>, required: string[] = []): Check =>
+  (value) => {
+    if (!isObject(value)) {
+      return "must be an object";
+    }
+    const problems = checkFields(value, fields, required);
+    return problems.length > 0 ? problems.join("; ") : null;
+  };
+
+const CREATE_SESSION_FIELDS: Record<string, Check> = {
+  name: string(255),
+  entry_fee: integer(0),
+  total_rounds: integer(1),
+  max_total_players: integer(1),
+  start_time: isoDate,
+  end_time: isoDate,
+  prize_policy: object({
+    house_fee_percent: percent,
+    token_decimals: integer(0, 18),
+    free_session_pool: digits,
+    split: oneOf(Object.values(PRIZE_SPLIT)),
+    remainder: oneOf(Object.values(PRIZE_REMAINDER)),
+  }),
+  lobby_seed: string(255),
+  lobby_distribution: object(
+    {
+      strategy: oneOf(Object.values(LOBBY_DISTRIBUTION_STRATEGY)),
+      min_lobby_size: integer(1),
+    },
+    ["strategy"]
+  ),
+  voting_rules: object({
+    quorum_percent: percent,
+    share_threshold_percent: percent,
+    tie_break: oneOf(Object.values(VOTE_TIE_BREAK)),
+    non_voter_default: oneOf(Object.values(VOTE_NON_VOTER_DEFAULT)),
+    afk_as_abstain: boolean,
+  }),
+  elimination_limits: object({
+    max_eliminations_per_round: integer(0),
+    max_elimination_percent: percent,
+  }),
+  elimination_strategy: object({
+    strategy: oneOf(Object.values(ELIMINATION_STRATEGY)),
+    // The fallback runs when the AI fails, so it must be a local strategy
+    fallback: oneOf(
+      Object.values(ELIMINATION_STRATEGY).filter(
+        (strategy) => strategy !== ELIMINATION_STRATEGY.AI
+      )
+    ),
+    eliminations_per_round: integer(1),
+  }),
+  round_timeline: object({
+    initial_wait_ms: integer(0),
+    ai_message_ms: integer(0),
+    discussion_ms: nullable(integer(1)),
+    elimination_ms: integer(0),
+    voting_ms: integer(0),
+  }),
+};
+
+const REQUIRED_FIELDS: (keyof CreateSessionRequest)[] = [
+  "name",
+  "entry_fee",
+  "total_rounds",
+  "max_total_players",
+  "start_time",
+  "end_time",
+];
+
+/**
+ * Validates a session creation request received over HTTP.
+ * @param body - The parsed request body.
+ * @param now - Current time, which the session must start after.
+ * @returns The request, or every problem found.
+ */
+export function validateCreateSessionRequest(
+  body: unknown,
+  now = Date.now()
+): ValidationResult<CreateSessionRequest> {
+  if (!isObject(body)) {
+    return { valid: false, errors: ["Request body must be a JSON object."] };
+  }
+
+  const errors = checkFields(body, CREATE_SESSION_FIELDS, REQUIRED_FIELDS);
+
+  if (errors.length === 0) {
+    const startTime = new Date(body.start_time as string).getTime();
+    const endTime = new Date(body.end_time as string).getTime();
+
+    if (startTime <= now) {
+      errors.push("start_time must be in the future");
+    }
+    if (endTime <= startTime) {
+      errors.push("end_time must be after start_time");
+    } else {
+      try {
+        buildRoundTimeline(body as unknown as CreateSessionRequest);
+      } catch (err) {
+        errors.push(err instanceof Error ? err.message : String(err));
+      }
+    }
+  }
+
+  return errors.length > 0
+    ? { valid: false, errors }
+    : { valid: true, value: body as unknown as CreateSessionRequest };
+}
+
+/**
+ * Validates a session reschedule request received over HTTP.
+ * @param body - The parsed request body.
+ * @param now - Current time, which the session must start after.
+ * @returns The request, or every problem found.
+ */
+export function validateRescheduleSessionRequest(
+  body: unknown,
+  now = Date.now()
+): ValidationResult<RescheduleSessionRequest> {
+  if (!isObject(body)) {
+    return { valid: false, errors: ["Request body must be a JSON object."] };
+  }
+
+  const errors = checkFields(body, { start_time: isoDate }, ["start_time"]);
+  if (
+    errors.length === 0 &&
+    new Date(body.start_time as string).getTime() <= now
+  ) {
+    errors.push("start_time must be in the future");
+  }
+
+  return errors.length > 0
+    ? { valid: false, errors }
+    : { valid: true, value: body as unknown as RescheduleSessionRequest };
+}
+
+function checkFields(
+  value: Record<string, unknown>,
+  fields: Record<string, Check>,
+  required: string[]
+): string[] {
+  const errors: string[] = [];
+
+  for (const key of required) {
+    if (value[key] === undefined) {
+      errors.push(`${key} is required`);
+    }
+  }
+
+  for (const [key, fieldValue] of Object.entries(value)) {
+    const check = fields[key];
+    if (!check) {
+      errors.push(`${key} is not a known field`);
+      continue;
+    }
+    if (fieldValue === undefined) {
+      continue;
+    }
+
+    const problem = check(fieldValue);
+    if (problem) {
+      errors.push(`${key} ${problem}`);
+    }
+  }
+
+  return errors;
+}
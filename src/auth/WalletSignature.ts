@@ -0,0 +1,126 @@
+import crypto from "crypto";
+
+const BASE58_ALPHABET =
+  "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+/**
+ * Decodes a base58 string (the encoding of wallet addresses and signatures).
+ * @param value - The base58 string.
+ * @returns The decoded bytes, or null if the string isn't valid base58.
+ */
+export function decodeBase58(value: string): Buffer | null {
+  let number = BigInt(0);
+  for (const char of value) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit === -1) {
+      return null;
+    }
+    number = number * BigInt(58) + BigInt(digit);
+  }
+
+  const bytes: number[] = [];
+  while (number > BigInt(0)) {
+    bytes.unshift(Number(number % BigInt(256)));
+    number /= BigInt(256);
+  }
+
+  // Each leading "1" encodes a leading zero byte
+  const leadingZeros = value.length - value.replace(/^1+/, "").length;
+  return Buffer.from([...new Array(leadingZeros).fill(0), ...bytes]);
+}
+
+/**
+ * Verifies that a message was signed by the owner of a wallet.
+ * @param walletAddress - The base58 wallet address (an Ed25519 public key).
+ * @param message - The signed message.
+ * @param signature - The base58 Ed25519 signature.
+ * @returns True if the signature is valid.
+ */
+export function verifyWalletSignature(
+  walletAddress: string,
+  message: string,
+  signature: string
+): boolean {
+  const publicKey = decodeBase58(walletAddress);
+  const signatureBytes = decodeBase58(signature);
+  if (publicKey?.length !== 32 || signatureBytes?.length !== 64) {
+    return false;
+  }
+
+  try {
+    const key = crypto.createPublicKey({
+      key: { kty: "OKP", crv: "Ed25519", x: publicKey.toString("base64url") },
+      format: "jwk",
+    });
+    return crypto.verify(null, Buffer.from(message), key, signatureBytes);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks that a signed request is recent enough to not be a replay.
+ * @param timestamp - Epoch ms when the client signed.
+ * @param maxAgeMs - Accepted clock difference in either direction.
+ */
+export function isSignatureFresh(timestamp: string, maxAgeMs: number): boolean {
+  const signedAt = Number(timestamp);
+  return Number.isFinite(signedAt) && Math.abs(Date.now() - signedAt) <= maxAgeMs;
+}
+
+/**
+ * Builds the message a wallet signs to join a private or presence channel.
+ * @param channelName - The channel.
+ * @param socketId - The socket asking to join.
+ * @param timestamp - Epoch ms when the client signed.
+ * @returns The message to sign.
+ */
+export function buildChannelAuthMessage(
+  channelName: string,
+  socketId: string,
+  timestamp: string
+): string {
+  return `Authorize ${channelName} for socket ${socketId} at ${timestamp}`;
+}
+
+/**
+ * Builds the message a wallet signs to report that it is connected to a lobby.
+ * @param lobbyId - The lobby.
+ * @param timestamp - Epoch ms when the client signed.
+ * @returns The message to sign.
+ */
+export function buildHeartbeatMessage(lobbyId: number, timestamp: string): string {
+  return `Heartbeat for lobby ${lobbyId} at ${timestamp}`;
+}
+
+/**
+ * Builds the message a wallet signs to cast a vote.
+ * @param lobbyId - The lobby.
+ * @param roundNumber - The round voted on.
+ * @param choice - The vote.
+ * @param timestamp - Epoch ms when the client signed.
+ * @returns The message to sign.
+ */
+export function buildVoteMessage(
+  lobbyId: number,
+  roundNumber: number,
+  choice: string,
+  timestamp: string
+): string {
+  return `Vote ${choice} in lobby ${lobbyId} round ${roundNumber} at ${timestamp}`;
+}
+
+/**
+ * Builds the message a wallet signs to post to its lobby's forum.
+ * @param lobbyId - The lobby.
+ * @param content - The message posted.
+ * @param timestamp - Epoch ms when the client signed.
+ * @returns The message to sign.
+ */
+export function buildForumPostMessage(
+  lobbyId: number,
+  content: string,
+  timestamp: string
+): string {
+  return `Post to lobby ${lobbyId} at ${timestamp}: ${content}`;
+}
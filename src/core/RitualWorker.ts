@@ -1,5 +1,4 @@
-import ApiClient from "../utils/ApiClient";
-import TimeUtils from "../utils/TimeUtils";
+import ApiClient, { ApiResponse, describeApiError } from "../utils/ApiClient";
 import { RedisService } from "../redis/RedisService";
 import { Pool } from "pg";
 import {
@@ -10,182 +9,253 @@ import {
   Lobby,
   LobbyStatus,
   PLAYER_STATUS,
+  SessionEvent,
+  SessionEventType,
+  PrizeParticipant,
+  ROUND_OUTCOME,
+  VoteTally,
+  VOTE_CHOICE,
+  LobbyData,
+  Elimination,
 } from "../types";
 import LobbyService from "../services/LobbyService";
 import SessionService from "../services/SessionService";
 import PlayerService from "../services/PlayerService";
-import Pusher from "pusher";
+import SessionProgressService from "../services/SessionProgressService";
+import SessionCleanupService from "../services/SessionCleanupService";
+import PayoutService from "../services/PayoutService";
+import UserStatsService from "../services/UserStatsService";
+import RoundService from "../services/RoundService";
+import VotingService from "../services/VotingService";
+import AIService from "../services/AIService";
+import ForumService from "../services/ForumService";
+import ForumArchiveService from "../services/ForumArchiveService";
+import PhaseService from "../services/PhaseService";
+import PresenceService from "../services/PresenceService";
+import { AGENT_ID } from "../lib/agent";
+import { createPrizePolicy } from "../prize/PrizePolicy";
+import { decideVote, resolveVotingRules } from "../voting/VotingRules";
+import {
+  resolveEliminationLimits,
+  validateEliminationResponse,
+} from "../elimination/EliminationValidator";
+import { createEliminationStrategy } from "../elimination/EliminationStrategy";
+import { RealtimePublisher } from "../realtime/RealtimePublisher";
+import { publishEvent } from "../realtime/RealtimeEvents";
+
+// Admin controls of a session being monitored
+interface SessionMonitor {
+  cancelled: boolean; // Stop after the event being processed
+  nextEvent: SessionEvent | null; // Event the monitor is waiting for
+  interrupt: (() => void) | null; // Ends the wait for the next event early
+}
 
 export class RitualWorker {
   private db: Pool;
   private redis: RedisService;
-  private pusher: Pusher;
+  private publisher: RealtimePublisher;
   private apiClient: ApiClient;
   private lobbyService: LobbyService;
   private sessionService: SessionService;
   private playerService: PlayerService;
+  private sessionProgressService: SessionProgressService;
+  private sessionCleanupService: SessionCleanupService;
+  private payoutService: PayoutService;
+  private userStatsService: UserStatsService;
+  private roundService: RoundService;
+  private votingService: VotingService;
+  private aiService: AIService;
+  private forumService: ForumService;
+  private forumArchiveService: ForumArchiveService;
+  private phaseService: PhaseService;
+  private presenceService: PresenceService;
+  private monitors = new Map<number, SessionMonitor>();
   private agentId: string;
 
   constructor(
     db: Pool,
     redis: RedisService,
-    pusher: Pusher,
+    publisher: RealtimePublisher,
     apiClient: ApiClient,
     lobbyService: LobbyService,
     sessionService: SessionService,
-    playerService: PlayerService
+    playerService: PlayerService,
+    sessionProgressService: SessionProgressService,
+    sessionCleanupService: SessionCleanupService,
+    payoutService: PayoutService,
+    userStatsService: UserStatsService,
+    roundService: RoundService,
+    votingService: VotingService,
+    aiService: AIService,
+    forumService: ForumService,
+    forumArchiveService: ForumArchiveService,
+    phaseService: PhaseService,
+    presenceService: PresenceService
   ) {
     this.db = db;
     this.redis = redis;
-    this.pusher = pusher;
+    this.publisher = publisher;
     this.apiClient = apiClient;
     this.lobbyService = lobbyService;
     this.sessionService = sessionService;
     this.playerService = playerService;
-    this.agentId = "36a03003-5d9b-0f41-ac69-85e98679b3e8";
+    this.sessionProgressService = sessionProgressService;
+    this.sessionCleanupService = sessionCleanupService;
+    this.payoutService = payoutService;
+    this.userStatsService = userStatsService;
+    this.roundService = roundService;
+    this.votingService = votingService;
+    this.aiService = aiService;
+    this.forumService = forumService;
+    this.forumArchiveService = forumArchiveService;
+    this.phaseService = phaseService;
+    this.presenceService = presenceService;
+    this.agentId = AGENT_ID;
   }
 
-  async start() {
-    console.log("RitualWorker started...");
-
-    while (true) {
-      // Fetch the currently active session or the next scheduled session
-
-      const nextActiveSession = await this.getActiveSession();
-      console.log("nextActiveSession", nextActiveSession);
-
-      const nextUpcomingSession = await this.fetchNextSession();
-      console.log("nextUpcomingSession", nextUpcomingSession);
-
-      console.log("now", new Date().toISOString());
-
-      let nextSession;
-
-      if (nextActiveSession) {
-        nextSession = nextActiveSession;
-      } else if (nextUpcomingSession) {
-        nextSession = nextUpcomingSession;
-      }
-
-      console.log("nextSession is", nextSession);
-
-      if (!nextSession) {
-        console.log(
-          "No active or upcoming sessions. Waiting for a new session..."
-        );
-        nextSession = await this.waitForNextSession(); // Wait for Redis event
-      }
-
-      // Ensure nextSession is not null
-      if (!nextSession) {
-        console.log("Still no session found. Continuing to wait...");
-        continue;
-      }
-
-      console.log(`Monitoring session: ${nextSession.id}`);
+  /**
+   * Runs a session's event timeline until it ends, replaying missed events.
+   * Several sessions can be monitored concurrently; all state is scoped to the session.
+   *
+   * Progress is recorded after an event is processed, so an event interrupted by a
+   * crash is processed again: delivery is at-least-once. Handlers are safe to rerun.
+   * Lobbies keep their first distribution, recorded eliminations are reapplied rather
+   * than decided again, and payouts are idempotent. Realtime events may be published twice.
+   * @param session - The session to monitor.
+   */
+  async monitorSession(session: Session) {
+    // Active/upcoming lookups don't include rounds, so load the full timeline
+    const fullSession = (await this.fetchSessionById(session.id)) || session;
+    const sessionPlayersKey = `session:${session.id}:players`;
 
-      // Monitor the session
-      await this.monitorSession(nextSession);
+    const progress = await this.sessionProgressService.getProgress(session.id);
+    if (progress) {
+      console.log(
+        `Resuming session ${session.id} after ${progress.last_event_type} (round ${progress.last_round_number ?? "-"}).`
+      );
     }
-  }
 
-  private async getActiveSession(): Promise<Session | null> {
-    const result = await this.db.query<Session>(
-      `SELECT id, name, entry_fee, total_rounds, max_total_players, 
-            start_time AT TIME ZONE 'UTC' AS start_time, 
-            end_time AT TIME ZONE 'UTC' AS end_time, 
-            created_at AT TIME ZONE 'UTC' AS created_at 
-     FROM sessions 
-     WHERE start_time <= NOW() AT TIME ZONE 'UTC' AND end_time >= NOW() AT TIME ZONE 'UTC'
-     LIMIT 1`
+    const pendingEvents = this.sessionProgressService.getPendingEvents(
+      this.buildEventTimeline(fullSession),
+      progress
     );
-    return result.rows[0] || null;
-  }
-
-  private async fetchNextSession(): Promise<Session | null> {
-    const result = await this.db.query<Session>(
-      `SELECT id, name, entry_fee, total_rounds, max_total_players, 
-            start_time AT TIME ZONE 'UTC' AS start_time, 
-            end_time AT TIME ZONE 'UTC' AS end_time, 
-            created_at AT TIME ZONE 'UTC' AS created_at 
-     FROM sessions 
-     WHERE start_time > NOW() AT TIME ZONE 'UTC' 
-     ORDER BY start_time ASC 
-     LIMIT 1`
-    );
-    return result.rows[0] || null;
-  }
 
-  private async waitForNextSession(): Promise<Session | null> {
-    return new Promise(async (resolve) => {
-      this.redis.subscribe("new-session", async (message) => {
-        const { sessionId } = JSON.parse(message);
-        const newSession = await this.fetchSessionById(sessionId);
-
-        console.log("newSession", newSession);
+    const monitor: SessionMonitor = {
+      cancelled: false,
+      nextEvent: null,
+      interrupt: null,
+    };
+    this.monitors.set(session.id, monitor);
 
-        if (!newSession) {
-          console.warn(`New session with ID ${sessionId} not found.`);
-          resolve(null);
-          return;
+    try {
+      for (const event of pendingEvents) {
+        if (monitor.cancelled) {
+          break;
         }
 
-        await this.pusher.trigger("sessions", "new-session", {
-          sessionId: newSession.id,
-          startTime: newSession.start_time,
-          endTime: newSession.end_time,
-          name: newSession.name,
-        });
-
-        resolve(newSession);
-      });
-    });
-  }
-
-  private async monitorSession(session: Session) {
-    console.log("session", session);
+        const now = Date.now();
+        // Check if the session has started or is still in the joining period
+        const isSessionStarted = now >= new Date(session.start_time).getTime();
+        if (isSessionStarted) {
+          // Check for players during the joining period
+          const playerCount = await this.redis.scard(sessionPlayersKey);
+          if (playerCount === 0) {
+            console.log(
+              `No players found in session ${session.id} during joining period. Retrying...`
+            );
+            console.log(`Cleaning up Redis data for session ${session.id}...`);
+            await this.sessionCleanupService.cleanupSession(session.id, false);
+            await this.sessionService.deleteSession(session.id);
+            // Notify via the realtime publisher
+            await publishEvent(this.publisher, "session-end", {
+              sessionId: session.id,
+              endTime: session.end_time,
+            });
+            break;
+          }
+        }
 
-    const sessionPlayersKey = `session:${session.id}:players`;
+        console.log(`Next event for session ${session.id}: ${event.type}`);
 
-    while (true) {
-      const now = Date.now();
-      // Check if the session has started or is still in the joining period
-      const isSessionStarted = now >= new Date(session.start_time).getTime();
-      if (isSessionStarted) {
-        // Check for players during the joining period
-        const playerCount = await this.redis.scard(sessionPlayersKey);
-        if (playerCount === 0) {
+        if (event.time > now) {
+          await this.waitForEvent(monitor, event); // SLEEP UNTIL NEXT EVENT
+          if (monitor.cancelled) {
+            break;
+          }
+        } else {
           console.log(
-            `No players found in session ${session.id} during joining period. Retrying...`
+            `Replaying missed event ${event.type} for session ${session.id}.`
           );
-          console.log(`Cleaning up Redis data for session ${session.id}...`);
-          await this.redis.flushAll();
-          await this.sessionService.deleteSession(session.id);
-          // Notify via Pusher
-          await this.pusher.trigger("sessions", "session-end", {
-            sessionId: session.id,
-            endTime: session.end_time,
-          });
-          break;
         }
-      }
 
-      const nextEvent = this.getNextEvent(session);
-      if (!nextEvent) {
-        break;
+        await this.processEvent(fullSession, event);
+        await this.sessionProgressService.recordEvent(session.id, event);
+
+        if (event.type === "SESSION_END") {
+          break; // No need to process further after session ends
+        }
       }
-      console.log(`Next event for session ${session.id}: ${nextEvent.type}`);
+    } finally {
+      this.monitors.delete(session.id);
+    }
 
-      await TimeUtils.sleepUntil(nextEvent.time); // SLEEP UNTIL NEXT EVENT
+    console.log(`Session ${session.id} monitoring completed.`);
+  }
 
-      await this.processEvent(session, nextEvent);
+  /**
+   * Stops monitoring a session after the event being processed. The session's
+   * state is left for the caller to clean up.
+   * @param sessionId - The session ID.
+   * @returns True if the session was being monitored.
+   */
+  cancelSession(sessionId: number): boolean {
+    const monitor = this.monitors.get(sessionId);
+    if (!monitor) {
+      return false;
+    }
 
-      if (nextEvent.type === "SESSION_END") {
-        break; // No need to process further after session ends
-      }
+    console.log(`Cancelling the monitoring of session ${sessionId}.`);
+    monitor.cancelled = true;
+    monitor.interrupt?.();
+    return true;
+  }
+
+  /**
+   * Processes the event a session is waiting for now instead of at its scheduled
+   * time. Time-window checks (such as the voting window) still use the schedule.
+   * @param sessionId - The session ID.
+   * @returns The event brought forward, or null if the session isn't waiting for one.
+   */
+  advanceSession(sessionId: number): SessionEvent | null {
+    const monitor = this.monitors.get(sessionId);
+    if (!monitor?.interrupt || !monitor.nextEvent) {
+      return null;
     }
 
-    console.log(`Session ${session.id} monitoring completed.`);
+    const event = monitor.nextEvent;
+    console.log(`Advancing session ${sessionId} to ${event.type}.`);
+    monitor.interrupt();
+    return event;
+  }
+
+  // Sleeps until the event is due, or until an admin interrupts the wait
+  private async waitForEvent(
+    monitor: SessionMonitor,
+    event: SessionEvent
+  ): Promise<void> {
+    const delay = event.time - Date.now();
+    console.log(`Sleeping for ${delay / 1000} seconds...`);
+
+    monitor.nextEvent = event;
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, delay);
+      monitor.interrupt = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+    monitor.nextEvent = null;
+    monitor.interrupt = null;
   }
 
   private async fetchSessionById(sessionId: number): Promise<Session | null> {
@@ -226,109 +296,88 @@ export class RitualWorker {
     };
   }
 
-  // Determine the next event for a session
-  private getNextEvent(session: Session) {
-    const now = Date.now();
-
-    // Check if the session has already ended
-    if (now >= new Date(session.end_time).getTime()) {
-      console.log(`Session ${session.id} is already over.`);
-      return null;
-    }
-
-    const events: { type: string; time: number; round?: Round }[] = [];
+  // Build the ordered event timeline for a session
+  private buildEventTimeline(session: Session): SessionEvent[] {
+    const events: SessionEvent[] = [];
     const rounds = session.rounds || [];
 
     // Add session start and end events
-    if (now < new Date(session.start_time).getTime()) {
-      events.push({
+    events.push(
+      {
         type: "SESSION_START",
         time: new Date(session.start_time).getTime(),
-      });
-    }
-
-    events.push({
-      type: "SESSION_END",
-      time: new Date(session.end_time).getTime(),
-    });
+      },
+      {
+        type: "SESSION_END",
+        time: new Date(session.end_time).getTime(),
+      }
+    );
 
-    // Add all round-related events
+    // Add all round-related events, skipping phases without a scheduled time
+    // (pg returns NULL timestamps as null, which would otherwise become the epoch)
     for (const round of rounds) {
-      events.push(
-        {
-          type: "AI_MESSAGE_START",
-          time: new Date(round.ai_message_start).getTime(),
-          round,
-        },
-        {
-          type: "AI_MESSAGE_END",
-          time: new Date(round.ai_message_end).getTime(),
-          round,
-        },
-        {
-          type: "ROUND_START",
-          time: new Date(round.start_time).getTime(),
-          round,
-        },
-        { type: "ROUND_END", time: new Date(round.end_time).getTime(), round },
-        {
-          type: "ELIMINATION_START",
-          time: new Date(round.elimination_start).getTime(),
-          round,
-        },
-        {
-          type: "ELIMINATION_END",
-          time: new Date(round.elimination_end).getTime(),
-          round,
-        },
-        {
-          type: "VOTING_START",
-          time: new Date(round.voting_start_time).getTime(),
-          round,
-        },
-        {
-          type: "VOTING_END",
-          time: new Date(round.voting_end_time).getTime(),
-          round,
+      const phases: [SessionEventType, string | null | undefined][] = [
+        ["AI_MESSAGE_START", round.ai_message_start],
+        ["AI_MESSAGE_END", round.ai_message_end],
+        ["ROUND_START", round.start_time],
+        ["ROUND_END", round.end_time],
+        ["ELIMINATION_START", round.elimination_start],
+        ["ELIMINATION_END", round.elimination_end],
+        ["VOTING_START", round.voting_start_time],
+        ["VOTING_END", round.voting_end_time],
+      ];
+
+      for (const [type, time] of phases) {
+        if (time === null || time === undefined) {
+          continue;
         }
-      );
+        events.push({ type, time: new Date(time).getTime(), round });
+      }
     }
 
-    // Find the next event based on the current time
-    const nextEvent = events
-      .filter((event) => event.time > now) // Only future events
-      .sort((a, b) => a.time - b.time)[0]; // Find the closest event
-
-    return nextEvent || null;
+    // Skip unparseable times and order the rest
+    return events
+      .filter((event) => !Number.isNaN(event.time))
+      .sort(SessionProgressService.compareEvents);
   }
 
-  private async processEvent(session: Session, event: any) {
-    await this.redis.set("currentEvent", event.type);
+  private async processEvent(session: Session, event: SessionEvent) {
+    const round = event.round as Round;
+
+    // Clean up before the phase state is written, as the cleanup deletes session keys
+    if (
+      event.type === "SESSION_START" &&
+      !(await this.playerService.hasLobbyAssignments(session.id))
+    ) {
+      await this.cleanupBeforeSessionStart(session);
+    }
+
+    await this.phaseService.enterEvent(session.id, event);
     switch (event.type) {
       case "SESSION_START":
         await this.handleSessionStart(session);
         break;
 
       case "AI_MESSAGE_START":
-        await this.handleAiMessageStart(session, event.round);
+        await this.handleAiMessageStart(session, round);
         break;
 
       case "AI_MESSAGE_END":
-        await this.handleAiMessageEnd(session, event.round);
-        console.log("Round started", event.round.round_number);
-        await this.handleRoundStart(session, event.round);
+        await this.handleAiMessageEnd(session, round);
+        console.log("Round started", round.round_number);
+        await this.handleRoundStart(session, round);
         break;
 
       case "ROUND_END":
-        await this.handleRoundEnd(session, event.round);
+        await this.handleRoundEnd(session, round);
         console.log("Starting elimination phase...");
-        await this.handleEliminationStart(session, event.round);
+        await this.handleEliminationStart(session, round);
 
        
         break;
 
       case "ELIMINATION_END":
-        await this.handleEliminationEnd(session, event.round);
+        await this.handleEliminationEnd(session, round);
         // Fetch remaining players for each active lobby
         const activeLobbies = await this.lobbyService.getActiveLobbies(
           session.id
@@ -348,40 +397,55 @@ export class RitualWorker {
               `Only one player left in lobby ${lobby.id}. Ending game for this lobby.`
             );
 
-            // Mark the lobby as completed
-            await this.lobbyService.updateLobbyStatus(
-              session.id,
-              lobby.id,
-              LobbyStatus.COMPLETED
-            );
-
             await this.playerService.updatePlayerStatus(
               lobby.id,
               remainingPlayers[0].wallet_address,
               PLAYER_STATUS.WINNER
             );
 
-            // Notify via Pusher
-            await this.pusher.trigger(`lobby-${lobby.id}`, "game-end", {
+            await this.playerService.recordPlayerTransitions(
+              session.id,
+              round.round_number,
+              { winners: [remainingPlayers[0].wallet_address] }
+            );
+
+            await this.roundService.recordLobbyResult(round, lobby.id, {
+              outcome: ROUND_OUTCOME.LAST_STANDING,
+              remaining_players: [remainingPlayers[0].wallet_address],
+            });
+
+            // Notify via the realtime publisher
+            await publishEvent(this.publisher, "game-end", {
               lobbyId: lobby.id,
               message: "Only one player left. The game has ended.",
               winner: remainingPlayers[0].wallet_address,
             });
 
-            await this.handleAirdrop(
-              [remainingPlayers[0].wallet_address],
-              lobby.players.length,
-              session.entry_fee
+            await this.handleAirdrop(session, lobby, round, [
+              remainingPlayers[0].wallet_address,
+            ]);
+
+            // Completed last, so a replay still finds the lobby and finishes its payouts
+            await this.lobbyService.updateLobbyStatus(
+              session.id,
+              lobby.id,
+              LobbyStatus.COMPLETED
             );
           };
         }
 
-        await this.handleVotingStart(session, event.round);
+        await this.handleVotingStart(session, round);
+
+        break;
 
+      case "ROUND_START":
+      case "ELIMINATION_START":
+      case "VOTING_START":
+        // Handled together with the end of the preceding phase
         break;
 
       case "VOTING_END":
-        await this.handleVotingEnd(session, event.round);
+        await this.handleVotingEnd(session, round);
         break;
 
       case "SESSION_END":
@@ -398,8 +462,94 @@ export class RitualWorker {
     session: Session,
     round: Round
   ) {
+    // Lobbies decided before a restart keep their recorded eliminations
+    const recordedEliminations = new Map<number, string[]>();
+    for (const result of await this.roundService.getLobbyResultsBySession(
+      session.id
+    )) {
+      if (result.round_id === round.id && result.eliminated_players) {
+        recordedEliminations.set(result.lobby_id, result.eliminated_players);
+      }
+    }
+
+    const decidedLobbies = lobbies.filter((lobby) =>
+      recordedEliminations.has(lobby.id)
+    );
+    const undecidedLobbies = lobbies.filter(
+      (lobby) => !recordedEliminations.has(lobby.id)
+    );
+
+    for (const lobby of decidedLobbies) {
+      console.log(
+        `Reapplying the recorded eliminations of lobby ${lobby.id} for round ${round.round_number}.`
+      );
+      await this.applyEliminations(
+        lobby,
+        session,
+        round,
+        recordedEliminations
+          .get(lobby.id)!
+          .map((participant) => ({ participant }))
+      );
+    }
+
+    if (undecidedLobbies.length === 0) {
+      return;
+    }
+
+    // One batched AI request for every lobby, with per-lobby fallback
+    const lobbyData: LobbyData[] = await Promise.all(
+      undecidedLobbies.map(async (lobby) => {
+        const remainingPlayers = lobby.players
+          .filter((player) => player.status === PLAYER_STATUS.ACTIVE)
+          .map((player) => player.wallet_address);
+
+        return {
+          lobby_id: lobby.id,
+          forum_messages: (await this.forumService.getMessages(lobby.id)).map(
+            (message) => ({
+              wallet_address: message.userPublicKey,
+              content: message.content,
+              timestamp: message.timestamp,
+            })
+          ),
+          remaining_players: remainingPlayers,
+          // Lets the AI tell silent players from disconnected ones
+          activity: await this.presenceService.getRoundActivity(
+            lobby.id,
+            round.round_number,
+            remainingPlayers
+          ),
+        };
+      })
+    );
+
+    const aiResponses = await createEliminationStrategy(
+      session,
+      this.aiService
+    ).decide({
+      agentId: this.agentId,
+      sessionId: session.id,
+      roundNumber: round.round_number,
+      maxRounds: session.total_rounds,
+      roundStartTime: round.start_time,
+      lobbies: lobbyData,
+    });
+
     await Promise.all(
-      lobbies.map((lobby) => this.processLobby(lobby, session, round))
+      undecidedLobbies.map((lobby) =>
+        this.processLobby(
+          lobby,
+          session,
+          round,
+          aiResponses.get(lobby.id) || {
+            error: {
+              type: "network",
+              message: `No AI decision for lobby ${lobby.id}`,
+            },
+          }
+        )
+      )
     );
   }
 
@@ -415,29 +565,40 @@ export class RitualWorker {
     console.log(`Elimination processed for round ${round.round_number}.`);
   }
 
-  private async processLobby(lobby: Lobby, session: Session, round: Round) {
-    // Send messages and remaining players to the AI for decision
-    const aiResponse = await this.apiClient.post<AIResponse>(
-      `/decideEliminations`,
-      {
-        agentId: this.agentId,
-        sessionId: session.id,
-        lobbyId: lobby.id,
-        maxRounds: session.total_rounds,
-        currentRound: round.round_number,
-        roundStartTime: round.start_time,
-        isDev: false,
-      }
-    );
+  private async processLobby(
+    lobby: Lobby,
+    session: Session,
+    round: Round,
+    aiResponse: ApiResponse<AIResponse>
+  ) {
+    console.log(`AI Response for lobby ${lobby.id}:`, aiResponse);
 
+    // Validate the AI decisions against the lobby's active players
+    const decision = validateEliminationResponse(
+      aiResponse.data,
+      lobby.players
+        .filter((player) => player.status === PLAYER_STATUS.ACTIVE)
+        .map((player) => player.wallet_address),
+      resolveEliminationLimits(session.elimination_limits)
+    );
 
-    console.log(`AI Response for lobby ${lobby.id}:`, aiResponse);
+    // A failed request is not a correction; anything else the validator touched is audited
+    if (
+      !aiResponse.error &&
+      (decision.rejected.length > 0 || decision.issues.length > 0)
+    ) {
+      await this.roundService.recordEliminationAudit(
+        round,
+        lobby.id,
+        aiResponse.data,
+        decision
+      );
+    }
 
-    // Extract AI decisions
-    const eliminatedPlayers = aiResponse.data?.response || [];
+    const eliminatedPlayers = decision.eliminations;
     console.log("Eliminated Players", eliminatedPlayers);
 
-    const commentResponse = this.apiClient.post<AIResponse>(
+    const commentResponse = await this.apiClient.post<AIResponse>(
       `/eliminationComment`,
       {
         agentId: this.agentId,
@@ -446,9 +607,43 @@ export class RitualWorker {
       }
     );
 
+    const eliminatedWallets = eliminatedPlayers.map(
+      (item) => item.participant
+    );
+
+    // Record the decision before applying it, so a replay reapplies it instead of asking again
+    await this.roundService.recordLobbyResult(round, lobby.id, {
+      ai_response: aiResponse.data ?? { error: aiResponse.error },
+      eliminated_players: eliminatedWallets,
+      elimination_comment: commentResponse.data ?? {
+        error: commentResponse.error,
+      },
+      remaining_players: lobby.players
+        .filter(
+          (player) =>
+            player.status === PLAYER_STATUS.ACTIVE &&
+            !eliminatedWallets.includes(player.wallet_address)
+        )
+        .map((player) => player.wallet_address),
+    });
+
+    await this.applyEliminations(lobby, session, round, eliminatedPlayers);
+  }
+
+  /**
+   * Applies a lobby's eliminations for a round. Safe to rerun with the same
+   * eliminations when a round is replayed.
+   */
+  private async applyEliminations(
+    lobby: Lobby,
+    session: Session,
+    round: Round,
+    eliminatedPlayers: Elimination[]
+  ) {
     // Update lobby players (set eliminated status)
     lobby.players = lobby.players.map((player) => {
       if (
+        player.status === PLAYER_STATUS.ACTIVE &&
         eliminatedPlayers.some(
           (item) => item.participant === player.wallet_address
         )
@@ -465,6 +660,7 @@ export class RitualWorker {
         return {
           ...player,
           status: PLAYER_STATUS.ELIMINATED,
+          total_rounds_played: round.round_number,
         };
       }
       return player; // Keep other players unchanged
@@ -474,26 +670,58 @@ export class RitualWorker {
 
     await this.lobbyService.updateLobby(session.id, lobby.id, lobby);
 
-    let combinedEliminations = [];
+    const eliminatedWallets = eliminatedPlayers.map(
+      (item) => item.participant
+    );
+    const survivingWallets = lobby.players
+      .filter((player) => player.status === PLAYER_STATUS.ACTIVE)
+      .map((player) => player.wallet_address);
+
+    // Persist eliminations and rounds played as the source of truth
+    await this.playerService.recordPlayerTransitions(
+      session.id,
+      round.round_number,
+      { eliminated: eliminatedWallets, survivors: survivingWallets }
+    );
 
-    // Store in Redis
+    // Store in Redis, once per eliminated player
     const redisKey = `elimination:lobby:${lobby.id}`;
     const existingEliminations = (await this.redis.get(redisKey)) || {};
-
-    combinedEliminations = existingEliminations.eliminatedPlayers || [];
-
-    combinedEliminations = [...combinedEliminations, ...eliminatedPlayers];
+    const storedEliminations: Elimination[] =
+      existingEliminations.eliminatedPlayers || [];
+
+    const combinedEliminations = [
+      ...storedEliminations,
+      ...eliminatedPlayers.filter(
+        (item) =>
+          !storedEliminations.some(
+            (stored) => stored.participant === item.participant
+          )
+      ),
+    ];
 
     await this.redis.set(
       redisKey,
       JSON.stringify({ eliminatedPlayers: combinedEliminations })
     );
 
-    // Notify players via Pusher
-    await this.pusher.trigger(`lobby-${lobby.id}`, "elimination-start", {
+    // Notify players via the realtime publisher
+    await publishEvent(this.publisher, "elimination-start", {
+      lobbyId: lobby.id,
       eliminatedPlayers,
     });
 
+    // Tell each eliminated player privately
+    for (const elimination of eliminatedPlayers) {
+      await publishEvent(this.publisher, "player-eliminated", {
+        wallet: elimination.participant,
+        sessionId: session.id,
+        lobbyId: lobby.id,
+        roundNumber: round.round_number,
+        reason: elimination.reason,
+      });
+    }
+
     console.log(`Elimination processed for lobby ${lobby.id}.`);
   }
 
@@ -517,7 +745,7 @@ export class RitualWorker {
 
     for (const lobby of activeLobbies) {
       // Notify players about the end of the elimination phase
-      await this.pusher.trigger(`lobby-${lobby.id}`, "elimination-end", {
+      await publishEvent(this.publisher, "elimination-end", {
         lobbyId: lobby.id,
         message: "Elimination phase has ended. Prepare for the next phase.",
         remainingParticipants: lobby.players.map(
@@ -540,7 +768,7 @@ export class RitualWorker {
     );
 
     // Notify players in the session about the AI message conclusion
-    await this.pusher.trigger("rounds", "ai-message-end", {
+    await publishEvent(this.publisher, "ai-message-end", {
       sessionId: session.id,
       roundNumber: round.round_number,
       message: "AI message phase has concluded. Prepare for the next phase.",
@@ -556,10 +784,12 @@ export class RitualWorker {
       `AI message phase started for round ${round.round_number} in session ${session.id}.`
     );
 
-    // Notify via Pusher about the AI topic message
-    await this.pusher.trigger("rounds", "ai-message-start", {
+    // Notify clients about the AI topic message
+    await publishEvent(this.publisher, "ai-message-start", {
       sessionId: session.id,
-      round: round,
+      roundNumber: round.round_number,
+      aiMessageStart: round.ai_message_start,
+      aiMessageEnd: round.ai_message_end,
     });
 
     console.log(`AI message for round ${round.round_number} published.`);
@@ -568,60 +798,80 @@ export class RitualWorker {
   private async handleSessionStart(session: Session) {
     console.log(`Session ${session.id} started.`);
 
-    // Redis cleanup: remove all keys related to the session and its lobbies
+    // A replay after a restart keeps the lobbies the first run created
+    if (await this.playerService.hasLobbyAssignments(session.id)) {
+      console.log(
+        `Session ${session.id} already has lobbies, keeping its distribution.`
+      );
+    } else if (!(await this.startLobbies(session))) {
+      return;
+    }
 
+    // Notify via the realtime publisher
+    await publishEvent(this.publisher, "session-start", {
+      sessionId: session.id,
+      startTime: session.start_time,
+    });
+  }
+
+  // Redis cleanup: remove all keys related to the session and its lobbies
+  private async cleanupBeforeSessionStart(session: Session) {
     try {
       console.log(`Cleaning up Redis data for session ${session.id}...`);
-      await this.redis.flushAll();
+      await this.sessionCleanupService.cleanupSession(session.id, false);
     } catch (err) {
       console.error(
         `Failed to clean up Redis data for session ${session.id}:`,
         err
       );
     }
+  }
 
-    const aiTopicResponse = this.apiClient.get(
-      `/${this.agentId}/roundAnnouncement/${session.total_rounds}` // TODO: ADD LOBBY
+  /**
+   * Distributes the session's players into lobbies.
+   * @returns False if the session has no players to put in lobbies.
+   */
+  private async startLobbies(session: Session): Promise<boolean> {
+    const aiTopicResponse = await this.apiClient.get(
+      `/${this.agentId}/roundAnnouncement/${session.total_rounds}`
     );
 
-    console.log("AI Topic Message:", aiTopicResponse);
+    if (aiTopicResponse.error) {
+      console.error(
+        `Failed to fetch the round announcement for session ${session.id}:`,
+        describeApiError(aiTopicResponse.error)
+      );
+    } else {
+      console.log("AI Topic Message:", aiTopicResponse.data);
+    }
 
     // Fetch players for the session
     const players = await this.playerService.getPlayers(session.id);
 
     if (players.length === 0) {
       console.warn(`No players found for session ${session.id}.`);
-      return; // Exit early as there are no players to process
+      return false; // Exit early as there are no players to process
     }
 
-    // Distribute players into lobbies
-    this.playerService
-      .distributePlayersToLobbies(session.id, session.max_total_players)
-      .then((lobbies) => {
-        if (lobbies.length === 0) {
-          console.warn(
-            `No lobbies created for session ${session.id} due to no players.`
-          );
-          return; // Exit early as there are no lobbies to process
-        } else {
-          for (const lobby of lobbies) {
-            this.redis.lpush(`lobby:${lobby.lobbyId}:forum`, "placeholder");
-            this.redis.ltrim(`lobby:${lobby.lobbyId}:forum`, 1, 0); // Remove the placeholder element
-          }
-        }
+    // Distribute players into lobbies (awaited so replayed events see them)
+    const lobbies = await this.playerService.distributePlayersToLobbies(
+      session
+    );
 
-        console.log("lobbies:", lobbies);
+    if (lobbies.length === 0) {
+      console.warn(
+        `No lobbies created for session ${session.id} due to no players.`
+      );
+      return false; // Exit early as there are no lobbies to process
+    }
 
-        // Notify via Pusher
-        this.pusher
-          .trigger("sessions", "session-start", {
-            sessionId: session.id,
-            startTime: session.start_time,
-          })
-          .then(() => {
-            console.log("pusher for session start sent!!!!!!!!!!!!!!!!!!!!!");
-          });
-      });
+    // Start every lobby with an empty forum
+    for (const lobby of lobbies) {
+      await this.forumService.clearMessages(lobby.lobbyId);
+    }
+
+    console.log("lobbies:", lobbies);
+    return true;
   }
 
   private async handleRoundStart(session: Session, round: Round) {
@@ -629,8 +879,8 @@ export class RitualWorker {
       `Round ${round.round_number} started for session ${session.id}.`
     );
 
-    // Notify via Pusher about the round start
-    await this.pusher.trigger("rounds", "round-start", {
+    // Notify clients about the round start
+    await publishEvent(this.publisher, "round-start", {
       sessionId: session.id,
       roundNumber: round.round_number,
       startTime: round.start_time,
@@ -645,8 +895,8 @@ export class RitualWorker {
     // Perform any round finalization logic
     console.log(`Round ${round.round_number} finalized.`);
 
-    // Notify via Pusher
-    await this.pusher.trigger("sessions", "round-end", {
+    // Notify via the realtime publisher
+    await publishEvent(this.publisher, "round-end", {
       sessionId: session.id,
       roundNumber: round.round_number,
     });
@@ -660,7 +910,7 @@ export class RitualWorker {
     );
 
     // Notify players about the voting phase
-    await this.pusher.trigger("rounds", "voting-start", {
+    await publishEvent(this.publisher, "voting-start", {
       sessionId: session.id,
       roundNumber: round.round_number,
       votingStartTime: round.voting_start_time,
@@ -670,8 +920,7 @@ export class RitualWorker {
     // Initialize voting storage (optional, based on Redis design)
     const lobbies = await this.lobbyService.getActiveLobbies(session.id);
     for (const lobby of lobbies) {
-      const votingKey = `voting:session:${session.id}:lobby:${lobby.id}:round:${round.id}`;
-      await this.redis.del(votingKey); // Clear any previous votes
+      await this.votingService.resetVotes(session.id, lobby.id, round.id); // Clear any previous votes
     }
   }
 
@@ -688,43 +937,72 @@ export class RitualWorker {
     }
 
     for (const lobby of activeLobbies) {
-      const lobbyResults = await this.lobbyService.getVotingResults(
+      // Rebuild the counts from the individual votes of active players
+      const tally = await this.votingService.tallyVotes(
         session.id,
         lobby.id,
         round.id
       );
 
-      if (!lobbyResults) {
-        console.warn(`No voting results found for lobby ${lobby.id}.`);
-        continue;
-      }
+      const remainingPlayers =
+        await this.lobbyService.getRemainingPlayersByLobby(
+          session.id,
+          lobby.id
+        );
+
+      // Players who were away the whole round and didn't vote
+      const afkNonVoters = (
+        await this.presenceService.getRoundActivity(
+          lobby.id,
+          round.round_number,
+          remainingPlayers.map((p) => p.wallet_address)
+        )
+      ).filter((activity) => activity.afk && !tally.votes[activity.wallet_address]);
+
+      // Apply the session's voting rules (quorum, threshold, tie-break, non-voters)
+      const decision = await decideVote(
+        resolveVotingRules(session.voting_rules),
+        tally,
+        remainingPlayers.length,
+        afkNonVoters.length,
+        () => this.requestAiTieBreak(session, lobby, round, tally)
+      );
 
-      // Calculate votes for "continue" and "end"
-      const continueVotes = lobbyResults["continue"] || 0;
-      const shareVotes = lobbyResults["share"] || 0;
+      const continueVotes = tally.continue;
+      const shareVotes = tally.share;
 
       console.log(
-        `Lobby ${lobby.id} voting results: CONT=${continueVotes}, END=${shareVotes}`
+        `Lobby ${lobby.id} voting results: CONT=${continueVotes}, END=${shareVotes} -> ${decision.result} (${decision.reason})`
       );
+
       // Determine the outcome for the lobby
-      if (continueVotes >= shareVotes) {
-        // Majority voted to continue
+      if (decision.result === VOTE_CHOICE.CONTINUE) {
         console.log(`Lobby ${lobby.id} voted to continue.`);
-        await this.pusher.trigger(`lobby-${lobby.id}`, "voting-result", {
+        await this.roundService.recordLobbyResult(round, lobby.id, {
+          continue_votes: continueVotes,
+          share_votes: shareVotes,
+          outcome: ROUND_OUTCOME.CONTINUE,
+          remaining_players: remainingPlayers.map((p) => p.wallet_address),
+        });
+
+        await publishEvent(this.publisher, "voting-result", {
           lobbyId: lobby.id,
-          result: "continue",
+          result: VOTE_CHOICE.CONTINUE,
+          decidedBy: decision.decided_by,
+          reason: decision.reason,
         });
       } else {
         // Majority voted to end the lobby
         console.log(`Lobby ${lobby.id} voted to end and share the prize.`);
 
-        // Determine the winners (players with ACTIVE status)
-        const remainingPlayers =
-          await this.lobbyService.getRemainingPlayersByLobby(
-            session.id,
-            lobby.id
-          );
+        await this.roundService.recordLobbyResult(round, lobby.id, {
+          continue_votes: continueVotes,
+          share_votes: shareVotes,
+          outcome: ROUND_OUTCOME.SHARE,
+          remaining_players: remainingPlayers.map((p) => p.wallet_address),
+        });
 
+        // The winners are the players with ACTIVE status
         for (const player of remainingPlayers) {
           await this.playerService.updatePlayerStatus(
             lobby.id,
@@ -733,31 +1011,38 @@ export class RitualWorker {
           );
         }
 
+        await this.playerService.recordPlayerTransitions(
+          session.id,
+          round.round_number,
+          { winners: remainingPlayers.map((p) => p.wallet_address) }
+        );
+
         console.log(
           "TRIGGER voting-result with winners:",
           remainingPlayers.map((p) => p.wallet_address)
         );
-        await this.pusher.trigger(`lobby-${lobby.id}`, "voting-result", {
-          result: "share",
+        await publishEvent(this.publisher, "voting-result", {
+          lobbyId: lobby.id,
+          result: VOTE_CHOICE.SHARE,
           winners: remainingPlayers.map((p) => p.wallet_address),
+          decidedBy: decision.decided_by,
+          reason: decision.reason,
         });
 
-        // Update lobby status to completed
+        await this.handleAirdrop(
+          session,
+          lobby,
+          round,
+          remainingPlayers.map((p) => p.wallet_address)
+        );
+
+        // Completed last, so a replay still finds the lobby and finishes its payouts
         await this.lobbyService.updateLobbyStatus(
           session.id,
           lobby.id,
           LobbyStatus.COMPLETED
         );
-
-        await this.handleAirdrop(
-          remainingPlayers.map((p) => p.wallet_address),
-          lobby.players.length,
-          session.entry_fee
-        );
       }
-      // Reset voting data in Redis
-      await this.redis.clearVotes(lobby.id.toString());
-      console.log(`Voting data reset for lobby ${lobby.id}.`);
     }
 
     console.log(
@@ -765,41 +1050,96 @@ export class RitualWorker {
     );
   }
 
+  private async requestAiTieBreak(
+    session: Session,
+    lobby: Lobby,
+    round: Round,
+    tally: VoteTally
+  ): Promise<VOTE_CHOICE | null> {
+    const response = await this.apiClient.post<{ decision: VOTE_CHOICE }>(
+      `/voteTieBreak`,
+      {
+        agentId: this.agentId,
+        sessionId: session.id,
+        lobbyId: lobby.id,
+        currentRound: round.round_number,
+        votes: tally.votes,
+      }
+    );
+
+    const decision = response.data?.decision;
+    if (decision !== VOTE_CHOICE.CONTINUE && decision !== VOTE_CHOICE.SHARE) {
+      console.warn(
+        `AI tie-break failed for lobby ${lobby.id}:`,
+        response.error ? describeApiError(response.error) : response.data
+      );
+      return null;
+    }
+
+    return decision;
+  }
+
   private async handleAirdrop(
-    winners: string[],
-    totalPlayers: number,
-    entryFee: number
+    session: Session,
+    lobby: Lobby,
+    round: Round,
+    winners: string[]
   ) {
     console.log("Airdropping to winners:", winners);
 
-    let prizePool: number;
-    console.log("Entry fee type: ", typeof entryFee)
-    console.log("Entry fee1: ", entryFee)
-    // Handle case where entry fee is 0
-    if (entryFee == 0) {
-      prizePool = 3_000_000_000_000; // FOR TEST 100 TOKENS, TODO: CHANGE IT TO 100k
-      console.log("Entry fee is 0, using fixed prize pool:", prizePool);
-    } else {
-      prizePool = totalPlayers * entryFee * Math.pow(10, 6) * 0.95;
-      console.log("Total players:", totalPlayers);
-      console.log("Entry fee:", entryFee);
-      console.log("Prize pool:", prizePool);
-    }
+    const prizePolicy = createPrizePolicy(session.prize_policy);
+    const prizePool = prizePolicy.computePrizePool(
+      lobby.players.length,
+      session.entry_fee
+    );
+    console.log("Prize pool:", prizePool.toString());
+
+    // Winners played every round so far; eliminated players up to their elimination
+    const participants: PrizeParticipant[] = lobby.players.map((player) => {
+      const isWinner = winners.includes(player.wallet_address);
+      return {
+        wallet_address: player.wallet_address,
+        rounds_played: isWinner
+          ? round.round_number
+          : player.total_rounds_played || 0,
+        is_winner: isWinner,
+      };
+    });
 
-    // Calculate the integer floor of the airdrop amount
-    const airdropAmount = Math.floor(prizePool / winners.length);
-    console.log("Airdrop amount per winner:", airdropAmount);
+    const allocations = prizePolicy.allocate(prizePool, participants);
+    console.log(
+      "Prize allocations:",
+      allocations.map((a) => `${a.wallet_address}=${a.amount}`)
+    );
 
-    // Perform airdrop to the winner
-    try {
-      await this.apiClient.post("/airdrop", {
-        agentId: this.agentId,
-        winners: winners,
-        amount: airdropAmount,
+    // Record the payouts before attempting them so failures can be retried
+    const payouts = await this.payoutService.createPayouts(
+      session.id,
+      lobby.id,
+      allocations
+    );
+
+    for (const allocation of allocations) {
+      if (allocation.amount === BigInt(0)) {
+        continue;
+      }
+      await publishEvent(this.publisher, "player-won", {
+        wallet: allocation.wallet_address,
+        sessionId: session.id,
+        lobbyId: lobby.id,
+        amount: allocation.amount.toString(),
       });
-      console.log(`Airdropped to ${winners}.`);
-    } catch (err) {
-      console.error(`Failed to airdrop to ${winners}:`, err);
+    }
+
+    for (const payout of payouts) {
+      try {
+        await this.payoutService.processPayout(payout.id);
+      } catch (err) {
+        console.error(
+          `Failed to airdrop to ${payout.wallet_address}, left for retry:`,
+          err
+        );
+      }
     }
   }
 
@@ -819,16 +1159,36 @@ export class RitualWorker {
       );
     }
 
-    // Notify via Pusher
-    await this.pusher.trigger("sessions", "session-end", {
+    // Credit winnings and debit entry fees to the participants' lifetime stats
+    try {
+      await this.userStatsService.recordSessionResults(session.id);
+    } catch (err) {
+      console.error(
+        `Failed to record user stats for session ${session.id}:`,
+        err
+      );
+    }
+
+    // Notify via the realtime publisher
+    await publishEvent(this.publisher, "session-end", {
       sessionId: session.id,
       endTime: session.end_time,
     });
 
+    // Keep the forums, which the eliminations were decided on, before Redis is cleaned up
+    try {
+      await this.forumArchiveService.archiveSession(session.id);
+    } catch (err) {
+      console.error(
+        `Failed to archive forum messages for session ${session.id}:`,
+        err
+      );
+    }
+
     // Redis cleanup: remove all keys related to the session and its lobbies
     try {
       console.log(`Cleaning up Redis data for session ${session.id}...`);
-      await this.redis.flushAll();
+      await this.sessionCleanupService.cleanupSession(session.id);
     } catch (err) {
       console.error(
         `Failed to clean up Redis data for session ${session.id}:`,
@@ -0,0 +1,319 @@
+import { Pool } from "pg";
+import { RealtimePublisher } from "../realtime/RealtimePublisher";
+import { publishEvent } from "../realtime/RealtimeEvents";
+import { RedisService } from "../redis/RedisService";
+import SessionService from "../services/SessionService";
+import { Session, SessionEvent } from "../types";
+import { RitualWorker } from "./RitualWorker";
+
+export interface SessionSchedulerOptions {
+  maxConcurrentSessions?: number; // Cap on sessions monitored at the same time
+  leadTimeMs?: number; // How early an upcoming session is picked up before its start
+  pollIntervalMs?: number; // Upper bound on how long the scheduler sleeps between checks
+  relaunchBaseDelayMs?: number; // Delay before relaunching a failed session, doubled on each failure
+  relaunchMaxDelayMs?: number; // Upper bound of the relaunch delay
+}
+
+interface SessionFailure {
+  failures: number; // Consecutive failed runs
+  retryAt: number; // Epoch ms before which the session isn't relaunched
+}
+
+export class SessionScheduler {
+  private db: Pool;
+  private redis: RedisService;
+  private publisher: RealtimePublisher;
+  private worker: RitualWorker;
+  private sessionService: SessionService;
+  private maxConcurrentSessions: number;
+  private leadTimeMs: number;
+  private pollIntervalMs: number;
+  private relaunchBaseDelayMs: number;
+  private relaunchMaxDelayMs: number;
+  private runningSessions = new Map<number, Promise<void>>();
+  private failedSessions = new Map<number, SessionFailure>();
+  private wakeUp: (() => void) | null = null;
+
+  constructor(
+    db: Pool,
+    redis: RedisService,
+    publisher: RealtimePublisher,
+    worker: RitualWorker,
+    sessionService: SessionService,
+    options: SessionSchedulerOptions = {}
+  ) {
+    this.db = db;
+    this.redis = redis;
+    this.publisher = publisher;
+    this.worker = worker;
+    this.sessionService = sessionService;
+    this.maxConcurrentSessions = Math.max(1, options.maxConcurrentSessions ?? 2);
+    this.leadTimeMs = options.leadTimeMs ?? 60 * 1000;
+    this.pollIntervalMs = options.pollIntervalMs ?? 60 * 1000;
+    this.relaunchBaseDelayMs = options.relaunchBaseDelayMs ?? 5 * 1000;
+    this.relaunchMaxDelayMs = options.relaunchMaxDelayMs ?? 5 * 60 * 1000;
+  }
+
+  async start() {
+    console.log(
+      `SessionScheduler started (max ${this.maxConcurrentSessions} concurrent sessions)...`
+    );
+
+    await this.redis.subscribe("new-session", (message) => {
+      this.handleNewSession(message).catch((err) =>
+        console.error("Failed to handle new-session event:", err)
+      );
+    });
+
+    while (true) {
+      await this.scheduleSessions();
+
+      const delay = await this.getNextWakeUpDelay();
+      await this.waitForWakeUp(delay);
+    }
+  }
+
+  /**
+   * Checks whether a session is being monitored.
+   * @param sessionId - The session ID.
+   */
+  isRunning(sessionId: number): boolean {
+    return this.runningSessions.has(sessionId);
+  }
+
+  /**
+   * Stops monitoring a session once its current event is processed.
+   * The caller must have cancelled the session first, or it will be relaunched.
+   * @param sessionId - The session ID.
+   * @returns True if the session was running.
+   */
+  async stopSession(sessionId: number): Promise<boolean> {
+    const run = this.runningSessions.get(sessionId);
+    if (!run) {
+      return false;
+    }
+
+    this.worker.cancelSession(sessionId);
+    await run;
+    return true;
+  }
+
+  /**
+   * Processes a running session's next event now instead of at its scheduled time.
+   * @param sessionId - The session ID.
+   * @returns The event that was brought forward, or null if the session isn't waiting for one.
+   */
+  advanceSession(sessionId: number): SessionEvent | null {
+    return this.worker.advanceSession(sessionId);
+  }
+
+  /**
+   * Re-evaluates which sessions are due after sessions were created or rescheduled.
+   */
+  notifySessionsChanged(): void {
+    this.wake();
+  }
+
+  /**
+   * Launches due sessions until the concurrency cap is reached.
+   */
+  private async scheduleSessions() {
+    const freeSlots = this.maxConcurrentSessions - this.runningSessions.size;
+    if (freeSlots <= 0) {
+      console.log(
+        `Concurrency cap reached (${this.runningSessions.size} sessions running).`
+      );
+      return;
+    }
+
+    const dueSessions = await this.getLaunchableSessions(
+      await this.fetchDueSessions()
+    );
+    console.log(
+      "dueSessions",
+      dueSessions.map((session) => session.id)
+    );
+
+    for (const session of dueSessions.slice(0, freeSlots)) {
+      this.launchSession(session);
+    }
+
+    if (dueSessions.length > freeSlots) {
+      console.log(
+        `${dueSessions.length - freeSlots} due sessions are waiting for a free slot.`
+      );
+    }
+  }
+
+  private launchSession(session: Session) {
+    console.log(`Monitoring session: ${session.id}`);
+
+    const run = this.worker
+      .monitorSession(session)
+      .then(() => {
+        this.failedSessions.delete(session.id);
+      })
+      .catch((err) => {
+        console.error(`Session ${session.id} monitoring failed:`, err);
+        this.recordFailure(session.id);
+      })
+      .finally(() => {
+        this.runningSessions.delete(session.id);
+        this.wake(); // A slot was freed
+      });
+
+    this.runningSessions.set(session.id, run);
+  }
+
+  /**
+   * Holds back due sessions whose last run failed until their relaunch delay passed.
+   * Failures of sessions that are no longer due are forgotten.
+   * @param dueSessions - The due sessions.
+   * @returns The due sessions that may be launched now.
+   */
+  private getLaunchableSessions(dueSessions: Session[]): Session[] {
+    const dueIds = new Set(dueSessions.map((session) => session.id));
+    for (const sessionId of this.failedSessions.keys()) {
+      if (!dueIds.has(sessionId) && !this.runningSessions.has(sessionId)) {
+        this.failedSessions.delete(sessionId);
+      }
+    }
+
+    const now = Date.now();
+    return dueSessions.filter((session) => {
+      const failure = this.failedSessions.get(session.id);
+      return !failure || failure.retryAt <= now;
+    });
+  }
+
+  // Exponential backoff, capped at relaunchMaxDelayMs
+  private recordFailure(sessionId: number) {
+    const failures = (this.failedSessions.get(sessionId)?.failures ?? 0) + 1;
+    const delay = Math.min(
+      this.relaunchBaseDelayMs * Math.pow(2, failures - 1),
+      this.relaunchMaxDelayMs
+    );
+
+    this.failedSessions.set(sessionId, {
+      failures,
+      retryAt: Date.now() + delay,
+    });
+    console.warn(
+      `Session ${sessionId} failed ${failures} time(s) in a row, relaunching in ${delay}ms.`
+    );
+  }
+
+  /**
+   * Fetches active, interrupted and soon-to-start sessions that are not running yet.
+   * @returns The due sessions, ordered by start time.
+   */
+  private async fetchDueSessions(): Promise<Session[]> {
+    const result = await this.db.query<Session>(
+      `SELECT id, name, entry_fee, total_rounds, max_total_players,
+            start_time AT TIME ZONE 'UTC' AS start_time,
+            end_time AT TIME ZONE 'UTC' AS end_time,
+            created_at AT TIME ZONE 'UTC' AS created_at
+     FROM sessions
+     WHERE start_time <= (NOW() AT TIME ZONE 'UTC') + $1 * INTERVAL '1 millisecond'
+       AND cancelled_at IS NULL
+       AND (
+         end_time >= NOW() AT TIME ZONE 'UTC'
+         -- Sessions interrupted by a restart still have events to replay
+         OR (completed IS NOT TRUE AND id IN (SELECT session_id FROM session_progress))
+       )
+       AND id <> ALL($2::int[])
+     ORDER BY start_time ASC`,
+      [this.leadTimeMs, Array.from(this.runningSessions.keys())]
+    );
+    return result.rows;
+  }
+
+  private async fetchNextSession(): Promise<Session | null> {
+    const result = await this.db.query<Session>(
+      `SELECT id, name, entry_fee, total_rounds, max_total_players,
+            start_time AT TIME ZONE 'UTC' AS start_time,
+            end_time AT TIME ZONE 'UTC' AS end_time,
+            created_at AT TIME ZONE 'UTC' AS created_at
+     FROM sessions
+     WHERE start_time > (NOW() AT TIME ZONE 'UTC') + $1 * INTERVAL '1 millisecond'
+       AND cancelled_at IS NULL
+     ORDER BY start_time ASC
+     LIMIT 1`,
+      [this.leadTimeMs]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Computes how long to sleep until the next upcoming session becomes due or a
+   * failed session may be relaunched.
+   * @returns The delay in milliseconds, capped at the poll interval.
+   */
+  private async getNextWakeUpDelay(): Promise<number> {
+    const nextUpcomingSession = await this.fetchNextSession();
+    console.log("nextUpcomingSession", nextUpcomingSession);
+
+    // Relaunches already due wait for a free slot, which wakes the scheduler anyway
+    const now = Date.now();
+    const wakeUpTimes = Array.from(
+      this.failedSessions.values(),
+      (failure) => failure.retryAt
+    ).filter((retryAt) => retryAt > now);
+    if (nextUpcomingSession) {
+      wakeUpTimes.push(
+        new Date(nextUpcomingSession.start_time).getTime() - this.leadTimeMs
+      );
+    } else {
+      console.log("No upcoming sessions. Waiting for a new session...");
+    }
+
+    if (wakeUpTimes.length === 0) {
+      return this.pollIntervalMs;
+    }
+
+    const nextWakeUp = Math.min(...wakeUpTimes);
+    return Math.min(Math.max(nextWakeUp - now, 0), this.pollIntervalMs);
+  }
+
+  private async waitForWakeUp(ms: number): Promise<void> {
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(() => {
+        this.wakeUp = null;
+        resolve();
+      }, ms);
+
+      this.wakeUp = () => {
+        clearTimeout(timer);
+        this.wakeUp = null;
+        resolve();
+      };
+    });
+  }
+
+  private wake() {
+    if (this.wakeUp) {
+      this.wakeUp();
+    }
+  }
+
+  private async handleNewSession(message: string) {
+    const { sessionId } = JSON.parse(message);
+    const newSession = await this.sessionService.getSessionById(sessionId);
+
+    console.log("newSession", newSession);
+
+    if (!newSession) {
+      console.warn(`New session with ID ${sessionId} not found.`);
+      return;
+    }
+
+    await publishEvent(this.publisher, "new-session", {
+      sessionId: newSession.id,
+      startTime: newSession.start_time,
+      endTime: newSession.end_time,
+      name: newSession.name,
+    });
+
+    this.wake();
+  }
+}
@@ -0,0 +1,7 @@
+CREATE TABLE IF NOT EXISTS session_progress (
+  session_id INT PRIMARY KEY REFERENCES sessions(id) ON DELETE CASCADE,
+  last_event_type VARCHAR(50) NOT NULL,
+  last_round_number INT,
+  last_event_time TIMESTAMP NOT NULL,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,3 @@
+-- Lobby IDs are unique across sessions so lobby-scoped Redis keys and
+-- channels of concurrently running sessions never collide
+CREATE SEQUENCE IF NOT EXISTS lobby_id_seq;
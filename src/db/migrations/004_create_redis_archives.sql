@@ -0,0 +1,12 @@
+-- Snapshot of a session's Redis keys taken right before they are deleted
+CREATE TABLE IF NOT EXISTS redis_archives (
+  id SERIAL PRIMARY KEY,
+  session_id INT NOT NULL,
+  redis_key TEXT NOT NULL,
+  key_type VARCHAR(16) NOT NULL,
+  value JSONB,
+  archived_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_redis_archives_session_id
+ON redis_archives (session_id);
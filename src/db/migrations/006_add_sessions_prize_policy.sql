@@ -0,0 +1,3 @@
+-- Per-session prize policy (see PrizePolicyConfig); NULL uses the default policy
+ALTER TABLE sessions
+ADD COLUMN IF NOT EXISTS prize_policy JSONB;
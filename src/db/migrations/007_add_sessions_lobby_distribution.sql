@@ -0,0 +1,7 @@
+-- Seed of the lobby shuffle, stored for auditability and deterministic replays
+ALTER TABLE sessions
+ADD COLUMN IF NOT EXISTS lobby_seed VARCHAR(64);
+
+-- Lobby distribution strategy (see LobbyDistributionConfig); NULL uses balanced lobbies
+ALTER TABLE sessions
+ADD COLUMN IF NOT EXISTS lobby_distribution JSONB;
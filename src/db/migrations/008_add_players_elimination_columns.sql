@@ -0,0 +1,14 @@
+ALTER TABLE players
+ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'active';
+
+ALTER TABLE players
+ADD COLUMN IF NOT EXISTS eliminated_at TIMESTAMP;
+
+ALTER TABLE players
+ADD COLUMN IF NOT EXISTS elimination_round INT;
+
+ALTER TABLE players
+ADD COLUMN IF NOT EXISTS total_rounds_played INT NOT NULL DEFAULT 0;
+
+ALTER TABLE players
+ADD COLUMN IF NOT EXISTS lobby_id INT;
@@ -0,0 +1,16 @@
+CREATE TABLE IF NOT EXISTS user_session_results (
+  id SERIAL PRIMARY KEY,
+  session_id INT NOT NULL,
+  wallet_address VARCHAR(255) NOT NULL,
+  lobby_id INT,
+  status VARCHAR(20) NOT NULL,
+  rounds_played INT NOT NULL DEFAULT 0,
+  entry_fee NUMERIC NOT NULL DEFAULT 0,
+  winnings NUMERIC NOT NULL DEFAULT 0,
+  profit NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (session_id, wallet_address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_session_results_wallet
+ON user_session_results (wallet_address);
@@ -0,0 +1,20 @@
+CREATE TABLE IF NOT EXISTS round_lobby_results (
+  id SERIAL PRIMARY KEY,
+  session_id INT NOT NULL,
+  round_id INT NOT NULL,
+  round_number INT NOT NULL,
+  lobby_id INT NOT NULL,
+  ai_response JSONB,
+  eliminated_players JSONB,
+  elimination_comment JSONB,
+  continue_votes INT,
+  share_votes INT,
+  outcome VARCHAR(20),
+  remaining_players JSONB,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (round_id, lobby_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_round_lobby_results_session_id
+ON round_lobby_results (session_id);
@@ -0,0 +1,3 @@
+-- Per-session voting rules (see VotingRules); NULL uses the default rules
+ALTER TABLE sessions
+ADD COLUMN IF NOT EXISTS voting_rules JSONB;
@@ -0,0 +1,20 @@
+-- Per-session caps on AI eliminations (see EliminationLimits); NULL uses the defaults
+ALTER TABLE sessions
+ADD COLUMN IF NOT EXISTS elimination_limits JSONB;
+
+-- AI elimination responses that were rejected or corrected by validation
+CREATE TABLE IF NOT EXISTS elimination_audits (
+  id SERIAL PRIMARY KEY,
+  session_id INT NOT NULL,
+  round_id INT NOT NULL,
+  round_number INT NOT NULL,
+  lobby_id INT NOT NULL,
+  raw_response JSONB,
+  accepted JSONB NOT NULL,
+  rejected JSONB NOT NULL,
+  issues JSONB NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_elimination_audits_session_id
+ON elimination_audits (session_id);
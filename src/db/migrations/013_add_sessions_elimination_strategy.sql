@@ -0,0 +1,3 @@
+-- Per-session elimination strategy (see EliminationStrategyConfig); NULL uses the AI with a local fallback
+ALTER TABLE sessions
+ADD COLUMN IF NOT EXISTS elimination_strategy JSONB;
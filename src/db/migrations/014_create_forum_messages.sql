@@ -0,0 +1,15 @@
+-- Forum messages archived from Redis when a session ends
+CREATE TABLE IF NOT EXISTS forum_messages (
+  id SERIAL PRIMARY KEY,
+  session_id INT NOT NULL,
+  lobby_id INT NOT NULL,
+  round_number INT, -- Round running when the message was posted (NULL before the first round)
+  wallet_address VARCHAR(255) NOT NULL,
+  content TEXT NOT NULL,
+  posted_at TIMESTAMP NOT NULL,
+  archived_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (session_id, lobby_id, wallet_address, posted_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_forum_messages_session_lobby
+ON forum_messages (session_id, lobby_id, posted_at);
@@ -0,0 +1,3 @@
+-- Set when an admin cancels a session; cancelled sessions are never scheduled again
+ALTER TABLE sessions
+ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP;
@@ -0,0 +1,3 @@
+-- Per-session phase durations of the rounds (see RoundTimelineConfig); NULL uses the defaults
+ALTER TABLE sessions
+ADD COLUMN IF NOT EXISTS round_timeline JSONB;
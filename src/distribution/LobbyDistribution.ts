@@ -0,0 +1,156 @@
+import { createHash, randomBytes } from "crypto";
+import {
+  LobbyDistribution,
+  LobbyDistributionConfig,
+  LOBBY_DISTRIBUTION_STRATEGY,
+} from "../types";
+
+export const DEFAULT_LOBBY_DISTRIBUTION: LobbyDistributionConfig = {
+  strategy: LOBBY_DISTRIBUTION_STRATEGY.BALANCED,
+};
+
+/**
+ * Generates a fresh seed for a session's lobby shuffle.
+ * @returns A hex-encoded random seed.
+ */
+export function generateSeed(): string {
+  return randomBytes(16).toString("hex");
+}
+
+/**
+ * Creates a deterministic uint32 generator (sfc32) from a string seed.
+ * @param seed - The seed.
+ * @returns A function returning the next uint32 of the sequence.
+ */
+export function createSeededRandom(seed: string): () => number {
+  const digest = createHash("sha256").update(seed).digest();
+  let a = digest.readUInt32LE(0);
+  let b = digest.readUInt32LE(4);
+  let c = digest.readUInt32LE(8);
+  let d = digest.readUInt32LE(12);
+
+  return () => {
+    const t = (((a + b) >>> 0) + d) >>> 0;
+    d = (d + 1) >>> 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) >>> 0;
+    c = (c << 21) | (c >>> 11);
+    c = (c + t) >>> 0;
+    return t;
+  };
+}
+
+/**
+ * Shuffles a copy of the items with an unbiased Fisher–Yates shuffle.
+ * @param items - The items to shuffle.
+ * @param seed - The seed that makes the shuffle reproducible.
+ * @returns The shuffled copy.
+ */
+export function seededShuffle<T>(items: T[], seed: string): T[] {
+  const next = createSeededRandom(seed);
+  const shuffled = [...items];
+
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = randomBelow(next, i + 1);
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+
+  return shuffled;
+}
+
+/**
+ * Splits already shuffled players into lobbies according to a strategy.
+ * No lobby ever exceeds `maxPlayersPerLobby`.
+ * @param players - The shuffled players.
+ * @param maxPlayersPerLobby - The lobby size cap.
+ * @param config - The distribution strategy.
+ * @returns The lobbies and the players left on the waitlist.
+ */
+export function distributeIntoLobbies<T>(
+  players: T[],
+  maxPlayersPerLobby: number,
+  config: LobbyDistributionConfig = DEFAULT_LOBBY_DISTRIBUTION
+): LobbyDistribution<T> {
+  if (!Number.isInteger(maxPlayersPerLobby) || maxPlayersPerLobby < 1) {
+    throw new Error(`Invalid lobby size cap: ${maxPlayersPerLobby}`);
+  }
+
+  const total = players.length;
+
+  switch (config.strategy) {
+    case LOBBY_DISTRIBUTION_STRATEGY.SEQUENTIAL: {
+      const sizes: number[] = [];
+      for (let remaining = total; remaining > 0; remaining -= maxPlayersPerLobby) {
+        sizes.push(Math.min(remaining, maxPlayersPerLobby));
+      }
+      return { lobbies: splitBySizes(players, sizes), waitlist: [] };
+    }
+
+    case LOBBY_DISTRIBUTION_STRATEGY.MIN_SIZE_WAITLIST: {
+      const minSize = config.min_lobby_size ?? 1;
+      if (minSize < 1 || minSize > maxPlayersPerLobby) {
+        throw new Error(
+          `Minimum lobby size must be between 1 and ${maxPlayersPerLobby}, got ${minSize}`
+        );
+      }
+
+      // Prefer enough lobbies to seat everyone; fall back to as many full-minimum lobbies as possible
+      let numLobbies = Math.ceil(total / maxPlayersPerLobby);
+      if (numLobbies * minSize > total) {
+        numLobbies = Math.floor(total / minSize);
+      }
+
+      const seated = Math.min(total, numLobbies * maxPlayersPerLobby);
+      return {
+        lobbies: splitBySizes(players, balancedSizes(seated, numLobbies)),
+        waitlist: players.slice(seated),
+      };
+    }
+
+    case LOBBY_DISTRIBUTION_STRATEGY.BALANCED: {
+      const numLobbies = Math.ceil(total / maxPlayersPerLobby);
+      return {
+        lobbies: splitBySizes(players, balancedSizes(total, numLobbies)),
+        waitlist: [],
+      };
+    }
+
+    default:
+      throw new Error(`Unknown lobby distribution strategy: ${config.strategy}`);
+  }
+}
+
+// Sizes that sum to `total` and differ by at most one
+function balancedSizes(total: number, numLobbies: number): number[] {
+  if (numLobbies === 0) {
+    return [];
+  }
+
+  const baseSize = Math.floor(total / numLobbies);
+  const extraPlayers = total % numLobbies;
+  return Array.from({ length: numLobbies }, (_, i) =>
+    i < extraPlayers ? baseSize + 1 : baseSize
+  );
+}
+
+function splitBySizes<T>(players: T[], sizes: number[]): T[][] {
+  const lobbies: T[][] = [];
+  let playerIndex = 0;
+
+  for (const size of sizes) {
+    lobbies.push(players.slice(playerIndex, playerIndex + size));
+    playerIndex += size;
+  }
+
+  return lobbies;
+}
+
+// Uniform integer in [0, bound) using rejection sampling to avoid modulo bias
+function randomBelow(next: () => number, bound: number): number {
+  const limit = 0x100000000 - (0x100000000 % bound);
+  let value = next();
+  while (value >= limit) {
+    value = next();
+  }
+  return value % bound;
+}
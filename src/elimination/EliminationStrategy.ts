@@ -0,0 +1,261 @@
+import AIService from "../services/AIService";
+import { ApiResponse } from "../utils/ApiClient";
+import { seededShuffle } from "../distribution/LobbyDistribution";
+import {
+  AIResponse,
+  ELIMINATION_STRATEGY,
+  EliminationStrategyConfig,
+  LobbyData,
+  RoundDecision,
+  Session,
+} from "../types";
+
+export interface EliminationStrategy {
+  readonly name: ELIMINATION_STRATEGY;
+
+  /**
+   * Decides the eliminations of a round for every lobby in the request.
+   * @param decisionData - The round and the lobbies with their forum messages.
+   * @returns The response of each lobby, keyed by lobby ID. Failed lobbies carry an `error`.
+   */
+  decide(
+    decisionData: RoundDecision
+  ): Promise<Map<number, ApiResponse<AIResponse>>>;
+}
+
+export const DEFAULT_ELIMINATION_STRATEGY: EliminationStrategyConfig = {
+  strategy: ELIMINATION_STRATEGY.AI,
+  fallback: ELIMINATION_STRATEGY.FEWEST_MESSAGES,
+  eliminations_per_round: 1,
+};
+
+/**
+ * Fills unset options of a session's stored strategy config with the defaults.
+ * @param config - The session's stored config (may be partial or missing).
+ * @returns The complete config.
+ */
+export function resolveEliminationStrategyConfig(
+  config?: Partial<EliminationStrategyConfig> | null
+): EliminationStrategyConfig {
+  return { ...DEFAULT_ELIMINATION_STRATEGY, ...config };
+}
+
+export class AiEliminationStrategy implements EliminationStrategy {
+  readonly name = ELIMINATION_STRATEGY.AI;
+  private aiService: AIService;
+
+  constructor(aiService: AIService) {
+    this.aiService = aiService;
+  }
+
+  decide(
+    decisionData: RoundDecision
+  ): Promise<Map<number, ApiResponse<AIResponse>>> {
+    return this.aiService.getEliminationDecisions(decisionData);
+  }
+}
+
+/**
+ * Base for strategies that rank each lobby's players locally and eliminate the first ones.
+ */
+abstract class LocalEliminationStrategy implements EliminationStrategy {
+  abstract readonly name: ELIMINATION_STRATEGY;
+  private eliminationsPerRound: number;
+
+  constructor(eliminationsPerRound: number) {
+    this.eliminationsPerRound = eliminationsPerRound;
+  }
+
+  /**
+   * Orders a lobby's remaining players, first to be eliminated first.
+   * @param decisionData - The round the decision is for.
+   * @param lobby - The lobby with its forum messages.
+   * @returns The ordered wallets with the reason for their rank.
+   */
+  protected abstract rank(
+    decisionData: RoundDecision,
+    lobby: LobbyData
+  ): { participant: string; reason: string }[];
+
+  async decide(
+    decisionData: RoundDecision
+  ): Promise<Map<number, ApiResponse<AIResponse>>> {
+    const responses = new Map<number, ApiResponse<AIResponse>>();
+
+    for (const lobby of decisionData.lobbies) {
+      // Never eliminate the last remaining player
+      const count = Math.min(
+        this.eliminationsPerRound,
+        Math.max(0, lobby.remaining_players.length - 1)
+      );
+
+      responses.set(lobby.lobby_id, {
+        data: {
+          response: this.rank(decisionData, lobby).slice(0, count),
+          success: true,
+          strategy: this.name,
+        },
+      });
+    }
+
+    return responses;
+  }
+}
+
+export class SeededRandomEliminationStrategy extends LocalEliminationStrategy {
+  readonly name = ELIMINATION_STRATEGY.SEEDED_RANDOM;
+
+  protected rank(decisionData: RoundDecision, lobby: LobbyData) {
+    const seed = `session:${decisionData.sessionId}:round:${decisionData.roundNumber}:lobby:${lobby.lobby_id}`;
+
+    return seededShuffle([...lobby.remaining_players].sort(), seed).map(
+      (participant) => ({ participant, reason: "Selected at random." })
+    );
+  }
+}
+
+export class FewestMessagesEliminationStrategy extends LocalEliminationStrategy {
+  readonly name = ELIMINATION_STRATEGY.FEWEST_MESSAGES;
+
+  protected rank(_decisionData: RoundDecision, lobby: LobbyData) {
+    const counts = new Map<string, number>(
+      lobby.remaining_players.map((wallet) => [wallet, 0])
+    );
+    for (const message of lobby.forum_messages) {
+      if (counts.has(message.wallet_address)) {
+        counts.set(message.wallet_address, counts.get(message.wallet_address)! + 1);
+      }
+    }
+
+    return [...counts.entries()]
+      .sort((a, b) => a[1] - b[1] || a[0].localeCompare(b[0]))
+      .map(([participant, count]) => ({
+        participant,
+        reason: `Posted ${count} forum messages.`,
+      }));
+  }
+}
+
+export class LeastRecentActivityEliminationStrategy extends LocalEliminationStrategy {
+  readonly name = ELIMINATION_STRATEGY.LEAST_RECENT_ACTIVITY;
+
+  protected rank(_decisionData: RoundDecision, lobby: LobbyData) {
+    // Players who never posted rank as least recently active
+    const lastActivity = new Map<string, number>(
+      lobby.remaining_players.map((wallet) => [wallet, -Infinity])
+    );
+    for (const message of lobby.forum_messages) {
+      const time = new Date(message.timestamp).getTime();
+      const previous = lastActivity.get(message.wallet_address);
+      if (previous !== undefined && !Number.isNaN(time) && time > previous) {
+        lastActivity.set(message.wallet_address, time);
+      }
+    }
+
+    return [...lastActivity.entries()]
+      .sort((a, b) => a[1] - b[1] || a[0].localeCompare(b[0]))
+      .map(([participant, time]) => ({
+        participant,
+        reason:
+          time === -Infinity
+            ? "Never posted in the forum."
+            : `Last posted at ${new Date(time).toISOString()}.`,
+      }));
+  }
+}
+
+/**
+ * Runs the primary strategy and hands every lobby it failed for to the fallback.
+ */
+export class FallbackEliminationStrategy implements EliminationStrategy {
+  readonly name: ELIMINATION_STRATEGY;
+  private primary: EliminationStrategy;
+  private fallback: EliminationStrategy;
+
+  constructor(primary: EliminationStrategy, fallback: EliminationStrategy) {
+    this.name = primary.name;
+    this.primary = primary;
+    this.fallback = fallback;
+  }
+
+  async decide(
+    decisionData: RoundDecision
+  ): Promise<Map<number, ApiResponse<AIResponse>>> {
+    let responses: Map<number, ApiResponse<AIResponse>>;
+    try {
+      responses = await this.primary.decide(decisionData);
+    } catch (error) {
+      console.error(`Elimination strategy ${this.primary.name} failed:`, error);
+      responses = new Map();
+    }
+
+    const failedLobbies = decisionData.lobbies.filter((lobby) => {
+      const response = responses.get(lobby.lobby_id);
+      return !response || response.error || !response.data;
+    });
+
+    if (failedLobbies.length > 0) {
+      console.warn(
+        `Falling back to ${this.fallback.name} eliminations for lobbies ${failedLobbies
+          .map((lobby) => lobby.lobby_id)
+          .join(", ")}.`
+      );
+
+      const fallbackResponses = await this.fallback.decide({
+        ...decisionData,
+        lobbies: failedLobbies,
+      });
+      for (const [lobbyId, response] of fallbackResponses) {
+        responses.set(lobbyId, response);
+      }
+    }
+
+    return responses;
+  }
+}
+
+function createStrategy(
+  strategy: ELIMINATION_STRATEGY,
+  eliminationsPerRound: number,
+  aiService: AIService
+): EliminationStrategy {
+  switch (strategy) {
+    case ELIMINATION_STRATEGY.AI:
+      return new AiEliminationStrategy(aiService);
+    case ELIMINATION_STRATEGY.SEEDED_RANDOM:
+      return new SeededRandomEliminationStrategy(eliminationsPerRound);
+    case ELIMINATION_STRATEGY.FEWEST_MESSAGES:
+      return new FewestMessagesEliminationStrategy(eliminationsPerRound);
+    case ELIMINATION_STRATEGY.LEAST_RECENT_ACTIVITY:
+      return new LeastRecentActivityEliminationStrategy(eliminationsPerRound);
+    default:
+      throw new Error(`Unknown elimination strategy: ${strategy}`);
+  }
+}
+
+/**
+ * Builds the elimination strategy of a session, wrapped with its local fallback.
+ * @param session - The session (its `elimination_strategy` selects the strategies).
+ * @param aiService - The AI service used by the AI strategy.
+ * @returns The strategy.
+ */
+export function createEliminationStrategy(
+  session: Session,
+  aiService: AIService
+): EliminationStrategy {
+  const config = resolveEliminationStrategyConfig(session.elimination_strategy);
+
+  const primary = createStrategy(
+    config.strategy,
+    config.eliminations_per_round,
+    aiService
+  );
+  if (config.fallback === config.strategy) {
+    return primary;
+  }
+
+  return new FallbackEliminationStrategy(
+    primary,
+    createStrategy(config.fallback, config.eliminations_per_round, aiService)
+  );
+}
@@ -0,0 +1,113 @@
+import { Elimination, EliminationDecision, EliminationLimits } from "../types";
+
+// No caps beyond always keeping one survivor
+export const DEFAULT_ELIMINATION_LIMITS: EliminationLimits = {};
+
+/**
+ * Fills unset options of a session's stored limits with the defaults.
+ * @param limits - The session's stored limits (may be partial or missing).
+ * @returns The complete limits.
+ */
+export function resolveEliminationLimits(
+  limits?: EliminationLimits | null
+): EliminationLimits {
+  return { ...DEFAULT_ELIMINATION_LIMITS, ...limits };
+}
+
+/**
+ * Validates a raw AI elimination response against a lobby's active players.
+ * Unknown, inactive and duplicate wallets are dropped, the number of eliminations is
+ * capped by the limits, and at least one active player always survives.
+ * @param rawResponse - The `data` of the AI response (shape unknown).
+ * @param activeWallets - Wallets of the lobby's active players.
+ * @param limits - The session's elimination limits.
+ * @returns The validated decision with every rejected entry and issue.
+ */
+export function validateEliminationResponse(
+  rawResponse: unknown,
+  activeWallets: string[],
+  limits: EliminationLimits = DEFAULT_ELIMINATION_LIMITS
+): EliminationDecision {
+  const decision: EliminationDecision = {
+    eliminations: [],
+    rejected: [],
+    issues: [],
+  };
+
+  const entries = (rawResponse as { response?: unknown } | null | undefined)
+    ?.response;
+
+  if (rawResponse === undefined || rawResponse === null) {
+    decision.issues.push("Missing response.");
+    return decision;
+  }
+  if (!Array.isArray(entries)) {
+    decision.issues.push("Response has no `response` array.");
+    return decision;
+  }
+
+  const active = new Set(activeWallets);
+  const seen = new Set<string>();
+  const candidates: Elimination[] = [];
+
+  for (const entry of entries) {
+    const participant = (entry as { participant?: unknown } | null)
+      ?.participant;
+
+    if (typeof participant !== "string" || participant.length === 0) {
+      decision.rejected.push({ entry, reason: "Malformed entry." });
+    } else if (!active.has(participant)) {
+      decision.rejected.push({
+        entry,
+        reason: "Wallet is not an active player of the lobby.",
+      });
+    } else if (seen.has(participant)) {
+      decision.rejected.push({ entry, reason: "Duplicate elimination." });
+    } else {
+      seen.add(participant);
+      const reason = (entry as { reason?: unknown }).reason;
+      candidates.push(
+        typeof reason === "string" ? { participant, reason } : { participant }
+      );
+    }
+  }
+
+  // Keep the first eliminations in AI order up to the tightest cap
+  const maxEliminations = getMaxEliminations(activeWallets.length, limits);
+  decision.eliminations = candidates.slice(0, maxEliminations);
+
+  for (const elimination of candidates.slice(maxEliminations)) {
+    decision.rejected.push({
+      entry: elimination,
+      reason: `Exceeds the cap of ${maxEliminations} eliminations this round.`,
+    });
+  }
+
+  if (candidates.length > maxEliminations) {
+    decision.issues.push(
+      `AI requested ${candidates.length} eliminations, capped at ${maxEliminations}.`
+    );
+  }
+
+  return decision;
+}
+
+function getMaxEliminations(
+  activePlayers: number,
+  limits: EliminationLimits
+): number {
+  // At least one player must survive
+  let max = Math.max(0, activePlayers - 1);
+
+  if (limits.max_eliminations_per_round !== undefined) {
+    max = Math.min(max, Math.max(0, limits.max_eliminations_per_round));
+  }
+  if (limits.max_elimination_percent !== undefined) {
+    max = Math.min(
+      max,
+      Math.floor((activePlayers * limits.max_elimination_percent) / 100)
+    );
+  }
+
+  return max;
+}
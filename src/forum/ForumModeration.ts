@@ -0,0 +1,89 @@
+import { ModerationResult } from "../types";
+
+export interface ModerationFilter {
+  /**
+   * Checks a message, possibly rewriting it.
+   * @param content - The message content.
+   * @returns The content to keep, or the reason the message is rejected.
+   */
+  moderate(content: string): ModerationResult;
+}
+
+/**
+ * Rejects messages containing any of the banned words (whole words, case-insensitive).
+ */
+export class BannedWordsFilter implements ModerationFilter {
+  private patterns: RegExp[];
+
+  constructor(bannedWords: string[]) {
+    this.patterns = bannedWords
+      .map((word) => word.trim())
+      .filter((word) => word.length > 0)
+      .map(
+        (word) =>
+          new RegExp(
+            `\\b${word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`,
+            "i"
+          )
+      );
+  }
+
+  moderate(content: string): ModerationResult {
+    if (this.patterns.some((pattern) => pattern.test(content))) {
+      return { content, rejected: "Message contains a banned word." };
+    }
+    return { content };
+  }
+}
+
+/**
+ * Replaces links with a placeholder so players can't advertise or phish.
+ */
+export class LinkStrippingFilter implements ModerationFilter {
+  private linkPattern = /\b(?:https?:\/\/|www\.)[^\s]+/gi;
+  private replacement: string;
+
+  constructor(replacement = "[link removed]") {
+    this.replacement = replacement;
+  }
+
+  moderate(content: string): ModerationResult {
+    return { content: content.replace(this.linkPattern, this.replacement) };
+  }
+}
+
+/**
+ * Runs filters in order, each on the output of the previous one; the first rejection wins.
+ */
+export class ModerationPipeline implements ModerationFilter {
+  private filters: ModerationFilter[];
+
+  constructor(filters: ModerationFilter[]) {
+    this.filters = filters;
+  }
+
+  moderate(content: string): ModerationResult {
+    let result: ModerationResult = { content };
+
+    for (const filter of this.filters) {
+      result = filter.moderate(result.content);
+      if (result.rejected) {
+        return result;
+      }
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Builds the default moderation: banned words, then link stripping.
+ * @param bannedWords - Words that get a message rejected.
+ * @returns The moderation filter.
+ */
+export function createModerationFilter(bannedWords: string[] = []): ModerationFilter {
+  return new ModerationPipeline([
+    new BannedWordsFilter(bannedWords),
+    new LinkStrippingFilter(),
+  ]);
+}
@@ -0,0 +1,145 @@
+import {
+  ArchivedForumMessage,
+  LobbyTranscript,
+  Round,
+  RoundLobbyResult,
+  TranscriptEntry,
+} from "../types";
+
+// Messages come before the events recorded at the same instant
+const ENTRY_ORDER: Record<TranscriptEntry["type"], number> = {
+  message: 0,
+  elimination: 1,
+  voting: 2,
+};
+
+/**
+ * Interleaves a lobby's forum messages with its elimination and voting events.
+ * Events of phases without a scheduled end are left out.
+ * @param sessionId - The session ID.
+ * @param lobbyId - The lobby ID.
+ * @param messages - The lobby's archived messages.
+ * @param rounds - The session's rounds (for the event timestamps).
+ * @param results - The lobby's round results.
+ * @returns The transcript, in chronological order.
+ */
+export function buildLobbyTranscript(
+  sessionId: number,
+  lobbyId: number,
+  messages: ArchivedForumMessage[],
+  rounds: Round[],
+  results: RoundLobbyResult[]
+): LobbyTranscript {
+  const roundsById = new Map(rounds.map((round) => [round.id, round]));
+  const entries: TranscriptEntry[] = messages.map((message) => ({
+    type: "message",
+    timestamp: toIsoString(message.posted_at),
+    round_number: message.round_number,
+    wallet_address: message.wallet_address,
+    content: message.content,
+  }));
+
+  for (const result of results) {
+    const round = roundsById.get(result.round_id);
+    if (!round) {
+      continue;
+    }
+
+    // Phases without a scheduled end can't be placed in the transcript (pg returns
+    // NULL timestamps as null, which would sort them at the epoch)
+    if (result.eliminated_players && round.elimination_end != null) {
+      entries.push({
+        type: "elimination",
+        timestamp: toIsoString(round.elimination_end),
+        round_number: result.round_number,
+        eliminated_players: result.eliminated_players,
+        remaining_players: result.remaining_players || [],
+        comment: result.elimination_comment,
+      });
+    }
+
+    if (
+      (result.continue_votes != null || result.share_votes != null) &&
+      round.voting_end_time != null
+    ) {
+      entries.push({
+        type: "voting",
+        timestamp: toIsoString(round.voting_end_time),
+        round_number: result.round_number,
+        continue_votes: result.continue_votes ?? 0,
+        share_votes: result.share_votes ?? 0,
+        outcome: result.outcome,
+      });
+    }
+  }
+
+  entries.sort(
+    (a, b) =>
+      a.timestamp.localeCompare(b.timestamp) ||
+      ENTRY_ORDER[a.type] - ENTRY_ORDER[b.type]
+  );
+
+  return { session_id: sessionId, lobby_id: lobbyId, entries };
+}
+
+/**
+ * Renders transcripts as a Markdown document, one section per lobby.
+ * @param transcripts - The lobby transcripts.
+ * @returns The Markdown.
+ */
+export function renderTranscriptMarkdown(
+  transcripts: LobbyTranscript[]
+): string {
+  const lines: string[] = [];
+
+  for (const transcript of transcripts) {
+    lines.push(
+      `# Session ${transcript.session_id} — Lobby ${transcript.lobby_id}`,
+      ""
+    );
+
+    let currentRound: number | null | undefined;
+    for (const entry of transcript.entries) {
+      if (entry.round_number !== currentRound) {
+        if (currentRound !== undefined) {
+          lines.push("");
+        }
+        currentRound = entry.round_number;
+        lines.push(
+          currentRound === null ? "## Before round 1" : `## Round ${currentRound}`,
+          ""
+        );
+      }
+
+      lines.push(renderEntry(entry));
+    }
+
+    if (transcript.entries.length === 0) {
+      lines.push("_No messages or events._");
+    }
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
+
+function renderEntry(entry: TranscriptEntry): string {
+  switch (entry.type) {
+    case "message":
+      // Keep multi-line messages inside their list item
+      return `- \`${entry.timestamp}\` **${entry.wallet_address}**: ${entry.content.replace(/\n/g, "\n  ")}`;
+    case "elimination": {
+      const eliminated =
+        entry.eliminated_players.length > 0
+          ? entry.eliminated_players.join(", ")
+          : "nobody";
+      return `- \`${entry.timestamp}\` _Elimination_: ${eliminated} eliminated, ${entry.remaining_players.length} players remain.`;
+    }
+    case "voting":
+      return `- \`${entry.timestamp}\` _Vote_: ${entry.continue_votes} continue, ${entry.share_votes} share${entry.outcome ? ` → ${entry.outcome}` : ""}.`;
+  }
+}
+
+function toIsoString(value: string | Date): string {
+  return new Date(value).toISOString();
+}
@@ -0,0 +1,289 @@
+import http, { IncomingHttpHeaders, IncomingMessage, ServerResponse } from "http";
+
+export interface HttpRequest {
+  method: string;
+  path: string;
+  params: Record<string, string>; // Values of the route's `:name` segments
+  query: URLSearchParams;
+  headers: IncomingHttpHeaders;
+  body: unknown; // Parsed JSON or form body (undefined if empty)
+}
+
+export interface HttpResponse {
+  status: number;
+  body?: unknown; // Sent as JSON
+}
+
+export type RouteHandler = (request: HttpRequest) => Promise<HttpResponse>;
+
+// Checks a request before its body is read; throws an HttpError to refuse it
+export type RouteGuard = (headers: IncomingHttpHeaders) => void;
+
+export interface HttpServerOptions {
+  port: number; // Port the server listens on
+  maxBodyBytes?: number; // Larger request bodies are refused
+  allowedOrigins?: string[]; // Browser origins allowed to call the server ("*" for any)
+}
+
+/**
+ * Error a route handler throws to answer with a specific status.
+ */
+export class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+interface Route {
+  method: string;
+  segments: string[];
+  handler: RouteHandler;
+  guard?: RouteGuard;
+}
+
+/**
+ * Minimal JSON HTTP server. Routes are matched on method and path, where
+ * `:name` segments are captured into `params`. Browsers on the allowed origins
+ * get CORS headers, and their preflight requests are answered for every route.
+ */
+export class HttpServer {
+  private options: HttpServerOptions;
+  private routes: Route[] = [];
+  private server: http.Server | null = null;
+
+  constructor(options: HttpServerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Registers a route.
+   * @param method - The HTTP method.
+   * @param path - The path, e.g. `/sessions/:id`.
+   * @param handler - The handler.
+   * @param guard - Checks the request before its body is read (optional).
+   */
+  route(
+    method: string,
+    path: string,
+    handler: RouteHandler,
+    guard?: RouteGuard
+  ): void {
+    this.routes.push({
+      method: method.toUpperCase(),
+      segments: splitPath(path),
+      handler,
+      guard,
+    });
+  }
+
+  async start(): Promise<void> {
+    if (this.server) {
+      return;
+    }
+
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((err) => {
+        console.error("Unhandled HTTP error:", err);
+        send(res, { status: 500, body: { error: "Internal server error." } });
+      });
+    });
+    this.server = server;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.options.port, resolve);
+    });
+    console.log(`HTTP server listening on port ${this.options.port}.`);
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = null;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    console.log("HTTP server closed.");
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || "/", "http://localhost");
+    const segments = splitPath(url.pathname);
+    const method = (req.method || "GET").toUpperCase();
+    const corsHeaders = this.getCorsHeaders(req);
+
+    let params: Record<string, string> | null = null;
+    const pathMethods: string[] = [];
+    let route: Route | undefined;
+    try {
+      for (const candidate of this.routes) {
+        const candidateParams = matchSegments(candidate.segments, segments);
+        if (!candidateParams) {
+          continue;
+        }
+        pathMethods.push(candidate.method);
+        if (candidate.method === method && !route) {
+          route = candidate;
+          params = candidateParams;
+        }
+      }
+    } catch (err) {
+      if (err instanceof HttpError) {
+        send(
+          res,
+          { status: err.status, body: { error: err.message } },
+          corsHeaders
+        );
+        return;
+      }
+      throw err;
+    }
+
+    // Answer CORS preflight requests for any path a route serves
+    if (method === "OPTIONS" && pathMethods.length > 0 && !route) {
+      send(res, { status: 204 }, {
+        ...corsHeaders,
+        "Access-Control-Allow-Methods": [...pathMethods, "OPTIONS"].join(", "),
+        "Access-Control-Allow-Headers": "Content-Type, Authorization",
+        "Access-Control-Max-Age": "600",
+      });
+      return;
+    }
+
+    if (!route || !params) {
+      send(
+        res,
+        pathMethods.length > 0
+          ? { status: 405, body: { error: "Method not allowed." } }
+          : { status: 404, body: { error: "Not found." } },
+        corsHeaders
+      );
+      return;
+    }
+
+    try {
+      // Refuse unauthorized requests before buffering and parsing their body
+      route.guard?.(req.headers);
+      const body = await this.readBody(req);
+      const response = await route.handler({
+        method,
+        path: url.pathname,
+        params,
+        query: url.searchParams,
+        headers: req.headers,
+        body,
+      });
+      send(res, response, corsHeaders);
+    } catch (err) {
+      if (err instanceof HttpError) {
+        send(
+          res,
+          { status: err.status, body: { error: err.message } },
+          corsHeaders
+        );
+        return;
+      }
+      console.error(`Error handling ${method} ${url.pathname}:`, err);
+      send(
+        res,
+        { status: 500, body: { error: "Internal server error." } },
+        corsHeaders
+      );
+    }
+  }
+
+  /**
+   * Builds the CORS headers for a request from an allowed origin.
+   * @returns The headers, empty if the request has no origin or it isn't allowed.
+   */
+  private getCorsHeaders(req: IncomingMessage): Record<string, string> {
+    const origin = req.headers.origin;
+    const allowedOrigins = this.options.allowedOrigins || [];
+    if (!origin) {
+      return {};
+    }
+    if (allowedOrigins.includes("*")) {
+      return { "Access-Control-Allow-Origin": "*" };
+    }
+    if (!allowedOrigins.includes(origin)) {
+      return {};
+    }
+    return { "Access-Control-Allow-Origin": origin, Vary: "Origin" };
+  }
+
+  private async readBody(req: IncomingMessage): Promise<unknown> {
+    const maxBodyBytes = this.options.maxBodyBytes ?? 1024 * 1024;
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > maxBodyBytes) {
+        throw new HttpError(413, "Request body too large.");
+      }
+      chunks.push(chunk);
+    }
+
+    const raw = Buffer.concat(chunks).toString("utf8");
+    if (raw === "") {
+      return undefined;
+    }
+
+    // Pusher's client library posts channel auth requests as a form
+    if (req.headers["content-type"]?.includes("application/x-www-form-urlencoded")) {
+      return Object.fromEntries(new URLSearchParams(raw));
+    }
+
+    try {
+      return JSON.parse(raw);
+    } catch {
+      throw new HttpError(400, "Invalid JSON body.");
+    }
+  }
+}
+
+function splitPath(path: string): string[] {
+  return path.split("/").filter((segment) => segment !== "");
+}
+
+function matchSegments(
+  pattern: string[],
+  segments: string[]
+): Record<string, string> | null {
+  if (pattern.length !== segments.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i].startsWith(":")) {
+      try {
+        params[pattern[i].slice(1)] = decodeURIComponent(segments[i]);
+      } catch {
+        throw new HttpError(400, `Malformed path segment: ${segments[i]}`);
+      }
+    } else if (pattern[i] !== segments[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+function send(
+  res: ServerResponse,
+  response: HttpResponse,
+  headers: Record<string, string> = {}
+): void {
+  if (res.headersSent) {
+    return;
+  }
+  res.writeHead(response.status, {
+    ...headers,
+    "Content-Type": "application/json",
+  });
+  res.end(response.body === undefined ? undefined : JSON.stringify(response.body));
+}
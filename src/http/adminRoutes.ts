@@ -0,0 +1,131 @@
+import crypto from "crypto";
+import { IncomingHttpHeaders } from "http";
+import { HttpError, HttpRequest, HttpResponse, HttpServer } from "./HttpServer";
+import SessionAdminService, {
+  SessionStateError,
+} from "../services/SessionAdminService";
+import {
+  validateCreateSessionRequest,
+  validateRescheduleSessionRequest,
+} from "../admin/SessionRequestValidation";
+
+/**
+ * Registers the admin API under `/admin`. Every route requires
+ * `Authorization: Bearer <token>`.
+ * - `POST /admin/sessions` creates a session from a `CreateSessionRequest`
+ * - `GET /admin/sessions` lists sessions
+ * - `GET /admin/sessions/:id` inspects a session
+ * - `POST /admin/sessions/:id/cancel` cancels a session
+ * - `POST /admin/sessions/:id/reschedule` moves a session that hasn't started
+ * - `POST /admin/sessions/:id/advance` processes a running session's next event now
+ * - `GET /admin/sessions/:id/lobbies` shows the lobbies of a session
+ * - `POST /admin/payouts/:id/retry` retries a failed or stuck payout
+ * @param server - The HTTP server.
+ * @param adminService - The session admin service.
+ * @param token - The admin API token.
+ */
+export function registerAdminRoutes(
+  server: HttpServer,
+  adminService: SessionAdminService,
+  token: string
+): void {
+  const route = (
+    method: string,
+    path: string,
+    handler: (request: HttpRequest) => Promise<HttpResponse>
+  ) =>
+    server.route(method, path, handler, (headers) =>
+      authenticate(headers, token)
+    );
+
+  route("POST", "/admin/sessions", async ({ body }) => {
+    const validation = validateCreateSessionRequest(body);
+    if (!validation.valid) {
+      return { status: 400, body: { errors: validation.errors } };
+    }
+    return {
+      status: 201,
+      body: await adminService.createSession(validation.value),
+    };
+  });
+
+  route("GET", "/admin/sessions", async () => ({
+    status: 200,
+    body: await adminService.listSessions(),
+  }));
+
+  route("GET", "/admin/sessions/:id", async ({ params }) =>
+    found(await adminService.getSessionOverview(parseId(params.id)))
+  );
+
+  route("POST", "/admin/sessions/:id/cancel", async ({ params }) =>
+    found(await conflict(adminService.cancelSession(parseId(params.id))))
+  );
+
+  route("POST", "/admin/sessions/:id/reschedule", async ({ params, body }) => {
+    const validation = validateRescheduleSessionRequest(body);
+    if (!validation.valid) {
+      return { status: 400, body: { errors: validation.errors } };
+    }
+    return found(
+      await conflict(
+        adminService.rescheduleSession(
+          parseId(params.id),
+          validation.value.start_time
+        )
+      )
+    );
+  });
+
+  route("POST", "/admin/sessions/:id/advance", async ({ params }) =>
+    found(await conflict(adminService.advancePhase(parseId(params.id))))
+  );
+
+  route("GET", "/admin/sessions/:id/lobbies", async ({ params }) =>
+    found(await adminService.getLobbyOverview(parseId(params.id)))
+  );
+
+  route("POST", "/admin/payouts/:id/retry", async ({ params }) =>
+    found(await conflict(adminService.retryPayout(parseId(params.id))))
+  );
+}
+
+// Compares digests so the check takes the same time whatever the token
+function authenticate(headers: IncomingHttpHeaders, token: string): void {
+  const header = headers.authorization || "";
+  const provided = header.startsWith("Bearer ") ? header.slice(7) : "";
+
+  const expected = crypto.createHash("sha256").update(token).digest();
+  const actual = crypto.createHash("sha256").update(provided).digest();
+  if (!provided || !crypto.timingSafeEqual(expected, actual)) {
+    throw new HttpError(401, "Invalid admin token.");
+  }
+}
+
+function parseId(value: string): number {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new HttpError(400, `Invalid ID: ${value}`);
+  }
+  return id;
+}
+
+function found(body: unknown): HttpResponse {
+  if (body === null) {
+    throw new HttpError(404, "Not found.");
+  }
+  return { status: 200, body };
+}
+
+// Answers 409 when the operation doesn't apply to the current state; other
+// failures reach the server's 500 handler
+async function conflict<T>(operation: Promise<T>): Promise<T> {
+  try {
+    return await operation;
+  } catch (err) {
+    if (err instanceof SessionStateError) {
+      throw new HttpError(409, err.message);
+    }
+    throw err;
+  }
+}
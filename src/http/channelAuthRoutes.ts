@@ -0,0 +1,44 @@
+import { HttpError, HttpServer } from "./HttpServer";
+import { ChannelAuthorizer } from "../realtime/ChannelAuthorizer";
+import { ChannelAuthRequest } from "../types";
+
+const REQUIRED_FIELDS: (keyof ChannelAuthRequest)[] = [
+  "socket_id",
+  "channel_name",
+  "wallet_address",
+  "timestamp",
+  "signature",
+];
+
+/**
+ * Registers `POST /realtime/auth`, which signs a client's subscription to a private
+ * or presence channel once it proved it owns its wallet.
+ * @param server - The HTTP server.
+ * @param authorizer - The channel authorizer.
+ */
+export function registerChannelAuthRoutes(
+  server: HttpServer,
+  authorizer: ChannelAuthorizer
+): void {
+  server.route("POST", "/realtime/auth", async ({ body }) => {
+    const request = (body || {}) as Record<string, unknown>;
+    const missing = REQUIRED_FIELDS.filter(
+      (field) => typeof request[field] !== "string" || request[field] === ""
+    );
+    if (missing.length > 0) {
+      throw new HttpError(400, `Missing fields: ${missing.join(", ")}`);
+    }
+
+    try {
+      const authorization = await authorizer.authorize(
+        request as unknown as ChannelAuthRequest
+      );
+      return { status: 200, body: authorization };
+    } catch (err) {
+      throw new HttpError(
+        403,
+        err instanceof Error ? err.message : "Not authorized."
+      );
+    }
+  });
+}
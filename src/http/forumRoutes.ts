@@ -0,0 +1,72 @@
+import { HttpError, HttpServer } from "./HttpServer";
+import ForumService from "../services/ForumService";
+import ActionRejectedError from "../utils/ActionRejectedError";
+import {
+  buildForumPostMessage,
+  isSignatureFresh,
+  verifyWalletSignature,
+} from "../auth/WalletSignature";
+import { ForumPostRequest } from "../types";
+
+const MAX_SIGNATURE_AGE_MS = 60 * 1000;
+
+/**
+ * Registers `POST /forum/messages`, which posts a player's message to their lobby's
+ * forum. Answers with the stored message.
+ * @param server - The HTTP server.
+ * @param forumService - Validates, moderates and stores the message.
+ */
+export function registerForumRoutes(
+  server: HttpServer,
+  forumService: ForumService
+): void {
+  server.route("POST", "/forum/messages", async ({ body }) => {
+    const request = (body || {}) as Partial<ForumPostRequest>;
+    const sessionId = Number(request.session_id);
+    const lobbyId = Number(request.lobby_id);
+    const { content, wallet_address: walletAddress, timestamp, signature } =
+      request;
+
+    if (
+      !Number.isInteger(sessionId) ||
+      !Number.isInteger(lobbyId) ||
+      typeof content !== "string" ||
+      typeof walletAddress !== "string" ||
+      typeof timestamp !== "string" ||
+      typeof signature !== "string"
+    ) {
+      throw new HttpError(
+        400,
+        "Expected session_id, lobby_id, content, wallet_address, timestamp and signature."
+      );
+    }
+
+    if (!isSignatureFresh(timestamp, MAX_SIGNATURE_AGE_MS)) {
+      throw new HttpError(403, "Signature expired.");
+    }
+    if (
+      !verifyWalletSignature(
+        walletAddress,
+        buildForumPostMessage(lobbyId, content, timestamp),
+        signature
+      )
+    ) {
+      throw new HttpError(403, "Invalid wallet signature.");
+    }
+
+    try {
+      const message = await forumService.postMessage(
+        sessionId,
+        lobbyId,
+        walletAddress,
+        content
+      );
+      return { status: 201, body: message };
+    } catch (err) {
+      if (err instanceof ActionRejectedError) {
+        throw new HttpError(403, err.message);
+      }
+      throw err;
+    }
+  });
+}
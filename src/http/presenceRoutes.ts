@@ -0,0 +1,70 @@
+import { HttpError, HttpServer } from "./HttpServer";
+import LobbyService from "../services/LobbyService";
+import PresenceService from "../services/PresenceService";
+import {
+  buildHeartbeatMessage,
+  isSignatureFresh,
+  verifyWalletSignature,
+} from "../auth/WalletSignature";
+import { HeartbeatRequest } from "../types";
+
+const MAX_SIGNATURE_AGE_MS = 60 * 1000;
+
+/**
+ * Registers `POST /presence/heartbeat`, which clients call periodically while a
+ * lobby is open so the service knows who is connected.
+ * @param server - The HTTP server.
+ * @param lobbyService - Looks up the lobby's players.
+ * @param presenceService - Records the heartbeats.
+ */
+export function registerPresenceRoutes(
+  server: HttpServer,
+  lobbyService: LobbyService,
+  presenceService: PresenceService
+): void {
+  server.route("POST", "/presence/heartbeat", async ({ body }) => {
+    const request = (body || {}) as Partial<HeartbeatRequest>;
+    const sessionId = Number(request.session_id);
+    const lobbyId = Number(request.lobby_id);
+    const { wallet_address: walletAddress, timestamp, signature } = request;
+
+    if (
+      !Number.isInteger(sessionId) ||
+      !Number.isInteger(lobbyId) ||
+      typeof walletAddress !== "string" ||
+      typeof timestamp !== "string" ||
+      typeof signature !== "string"
+    ) {
+      throw new HttpError(
+        400,
+        "Expected session_id, lobby_id, wallet_address, timestamp and signature."
+      );
+    }
+
+    if (!isSignatureFresh(timestamp, MAX_SIGNATURE_AGE_MS)) {
+      throw new HttpError(403, "Signature expired.");
+    }
+    if (
+      !verifyWalletSignature(
+        walletAddress,
+        buildHeartbeatMessage(lobbyId, timestamp),
+        signature
+      )
+    ) {
+      throw new HttpError(403, "Invalid wallet signature.");
+    }
+
+    const lobby = await lobbyService.getLobby(sessionId, lobbyId);
+    if (
+      !lobby?.players.some((player) => player.wallet_address === walletAddress)
+    ) {
+      throw new HttpError(
+        403,
+        `${walletAddress} is not a member of lobby ${lobbyId}.`
+      );
+    }
+
+    await presenceService.heartbeat(sessionId, lobbyId, walletAddress);
+    return { status: 204 };
+  });
+}
@@ -0,0 +1,87 @@
+import { HttpError, HttpServer } from "./HttpServer";
+import RoundService from "../services/RoundService";
+import VotingService from "../services/VotingService";
+import ActionRejectedError from "../utils/ActionRejectedError";
+import {
+  buildVoteMessage,
+  isSignatureFresh,
+  verifyWalletSignature,
+} from "../auth/WalletSignature";
+import { VOTE_CHOICE, VoteRequest } from "../types";
+
+const MAX_SIGNATURE_AGE_MS = 60 * 1000;
+
+/**
+ * Registers `POST /votes`, which casts a player's vote for the round being voted on.
+ * Answers with the lobby's updated tally.
+ * @param server - The HTTP server.
+ * @param roundService - Looks up the round voted on.
+ * @param votingService - Validates and records the vote.
+ */
+export function registerVoteRoutes(
+  server: HttpServer,
+  roundService: RoundService,
+  votingService: VotingService
+): void {
+  server.route("POST", "/votes", async ({ body }) => {
+    const request = (body || {}) as Partial<VoteRequest>;
+    const sessionId = Number(request.session_id);
+    const lobbyId = Number(request.lobby_id);
+    const roundNumber = Number(request.round_number);
+    const { choice, wallet_address: walletAddress, timestamp, signature } =
+      request;
+
+    if (
+      !Number.isInteger(sessionId) ||
+      !Number.isInteger(lobbyId) ||
+      !Number.isInteger(roundNumber) ||
+      !Object.values(VOTE_CHOICE).includes(choice as VOTE_CHOICE) ||
+      typeof walletAddress !== "string" ||
+      typeof timestamp !== "string" ||
+      typeof signature !== "string"
+    ) {
+      throw new HttpError(
+        400,
+        "Expected session_id, lobby_id, round_number, choice, wallet_address, timestamp and signature."
+      );
+    }
+
+    if (!isSignatureFresh(timestamp, MAX_SIGNATURE_AGE_MS)) {
+      throw new HttpError(403, "Signature expired.");
+    }
+    if (
+      !verifyWalletSignature(
+        walletAddress,
+        buildVoteMessage(lobbyId, roundNumber, choice as VOTE_CHOICE, timestamp),
+        signature
+      )
+    ) {
+      throw new HttpError(403, "Invalid wallet signature.");
+    }
+
+    const rounds = await roundService.getRoundsBySession(sessionId);
+    const round = rounds.find((round) => round.round_number === roundNumber);
+    if (!round) {
+      throw new HttpError(
+        404,
+        `Round ${roundNumber} of session ${sessionId} not found.`
+      );
+    }
+
+    try {
+      const tally = await votingService.castVote(
+        sessionId,
+        lobbyId,
+        round,
+        walletAddress,
+        choice as VOTE_CHOICE
+      );
+      return { status: 200, body: tally };
+    } catch (err) {
+      if (err instanceof ActionRejectedError) {
+        throw new HttpError(403, err.message);
+      }
+      throw err;
+    }
+  });
+}
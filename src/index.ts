@@ -1,11 +1,34 @@
 import pool from "./db";
-import pusher from "./lib/pusher";
+import realtime from "./lib/realtime";
+import { publishEvent } from "./realtime/RealtimeEvents";
 import { RedisService } from "./redis/RedisService";
-import ApiClient from "./utils/ApiClient";
+import apiClient, { circuitBreaker } from "./lib/apiClient";
 import LobbyService from "./services/LobbyService";
 import SessionService from "./services/SessionService";
 import PlayerService from "./services/PlayerService";
+import SessionProgressService from "./services/SessionProgressService";
+import SessionCleanupService from "./services/SessionCleanupService";
+import PayoutService from "./services/PayoutService";
+import UserStatsService from "./services/UserStatsService";
+import RoundService from "./services/RoundService";
+import VotingService from "./services/VotingService";
+import AIService from "./services/AIService";
+import ForumService from "./services/ForumService";
+import ForumArchiveService from "./services/ForumArchiveService";
+import PhaseService from "./services/PhaseService";
+import PresenceService from "./services/PresenceService";
+import SessionAdminService from "./services/SessionAdminService";
+import { AGENT_ID } from "./lib/agent";
+import { createModerationFilter } from "./forum/ForumModeration";
+import { ChannelAuthorizer } from "./realtime/ChannelAuthorizer";
+import { HttpServer } from "./http/HttpServer";
+import { registerChannelAuthRoutes } from "./http/channelAuthRoutes";
+import { registerPresenceRoutes } from "./http/presenceRoutes";
+import { registerVoteRoutes } from "./http/voteRoutes";
+import { registerForumRoutes } from "./http/forumRoutes";
+import { registerAdminRoutes } from "./http/adminRoutes";
 import { RitualWorker } from "./core/RitualWorker";
+import { SessionScheduler } from "./core/SessionScheduler";
 
 // Load environment variables
 import dotenv from "dotenv";
@@ -15,29 +38,159 @@ dotenv.config();
   try {
     console.log("Starting Ritual Service...");
 
+    // Start the realtime transport (a no-op for hosted providers)
+    await realtime.start();
+
     // Initialize Redis service
     const redis = new RedisService();
 
-    // Initialize API client for AI service
-    const apiClient = new ApiClient(process.env.AI_API_BASE_URL || "");
+    // Tell ops whenever an AI endpoint goes down or recovers
+    circuitBreaker.onStateChange((change) => {
+      publishEvent(realtime, "circuit-state-changed", change).catch((err) =>
+        console.error("Failed to publish circuit state change:", err)
+      );
+    });
 
     // Initialize additional services
-    const lobbyService = new LobbyService(redis, pusher);
-    const sessionService = new SessionService(pool, pusher);
-    const playerService = new PlayerService(pool, redis, pusher);
+    const lobbyService = new LobbyService(redis, realtime);
+    const playerService = new PlayerService(pool, redis, realtime);
+    const sessionProgressService = new SessionProgressService(pool);
+    const sessionCleanupService = new SessionCleanupService(
+      pool,
+      redis,
+      process.env.ARCHIVE_SESSION_DATA === "true"
+    );
+
+    const payoutService = new PayoutService(
+      pool,
+      apiClient,
+      realtime,
+      AGENT_ID
+    );
+    const userStatsService = new UserStatsService(pool);
+    const roundService = new RoundService(pool, realtime);
+    const sessionService = new SessionService(pool, roundService, realtime);
+    const phaseService = new PhaseService(redis, realtime);
+    const presenceService = new PresenceService(redis, phaseService, {
+      heartbeatTimeoutMs: parseInt(
+        process.env.PRESENCE_HEARTBEAT_TIMEOUT_MS || "30000",
+        10
+      ),
+    });
+    const votingService = new VotingService(
+      redis,
+      lobbyService,
+      phaseService,
+      presenceService,
+      realtime
+    );
+    const aiService = new AIService(apiClient, realtime);
+    const forumService = new ForumService(
+      redis,
+      lobbyService,
+      phaseService,
+      presenceService,
+      realtime,
+      createModerationFilter(
+        (process.env.FORUM_BANNED_WORDS || "").split(",")
+      ),
+      {
+        maxMessageLength: parseInt(
+          process.env.FORUM_MAX_MESSAGE_LENGTH || "500",
+          10
+        ),
+      }
+    );
+
+    const forumArchiveService = new ForumArchiveService(
+      pool,
+      forumService,
+      roundService
+    );
+
+    // Serve channel auth, player heartbeats, votes and forum posts
+    const httpServer = new HttpServer({
+      port: parseInt(process.env.HTTP_PORT || "3001", 10),
+      allowedOrigins: (process.env.HTTP_ALLOWED_ORIGINS || "")
+        .split(",")
+        .map((origin) => origin.trim())
+        .filter((origin) => origin !== ""),
+    });
+    registerChannelAuthRoutes(
+      httpServer,
+      new ChannelAuthorizer(realtime, playerService, {
+        operatorWallets: (process.env.OPS_WALLETS || "")
+          .split(",")
+          .map((wallet) => wallet.trim())
+          .filter((wallet) => wallet !== ""),
+      })
+    );
+    registerPresenceRoutes(httpServer, lobbyService, presenceService);
+    registerVoteRoutes(httpServer, roundService, votingService);
+    registerForumRoutes(httpServer, forumService);
+
+    // Retry failed airdrops in the background
+    payoutService.startRetryLoop();
 
-    // Initialize and start RitualWorker
+    // Initialize RitualWorker
     const ritualWorker = new RitualWorker(
       pool,
       redis,
-      pusher,
+      realtime,
       apiClient,
       lobbyService,
       sessionService,
-      playerService
+      playerService,
+      sessionProgressService,
+      sessionCleanupService,
+      payoutService,
+      userStatsService,
+      roundService,
+      votingService,
+      aiService,
+      forumService,
+      forumArchiveService,
+      phaseService,
+      presenceService
     );
 
-    await ritualWorker.start();
+    // Initialize and start the scheduler that runs sessions concurrently
+    const sessionScheduler = new SessionScheduler(
+      pool,
+      redis,
+      realtime,
+      ritualWorker,
+      sessionService,
+      {
+        maxConcurrentSessions: parseInt(
+          process.env.MAX_CONCURRENT_SESSIONS || "2",
+          10
+        ),
+      }
+    );
+
+    // The admin API is only served when a token is configured
+    if (process.env.ADMIN_API_TOKEN) {
+      registerAdminRoutes(
+        httpServer,
+        new SessionAdminService(
+          sessionService,
+          sessionProgressService,
+          sessionCleanupService,
+          lobbyService,
+          phaseService,
+          payoutService,
+          sessionScheduler,
+          realtime
+        ),
+        process.env.ADMIN_API_TOKEN
+      );
+    } else {
+      console.warn("ADMIN_API_TOKEN is not set; the admin API is disabled.");
+    }
+    await httpServer.start();
+
+    await sessionScheduler.start();
   } catch (error) {
     console.error("Error starting Ritual Service:", error);
     process.exit(1);
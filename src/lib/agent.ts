@@ -0,0 +1,3 @@
+// Agent the AI service and airdrop endpoints act on behalf of
+export const AGENT_ID =
+  process.env.AI_AGENT_ID || "36a03003-5d9b-0f41-ac69-85e98679b3e8";
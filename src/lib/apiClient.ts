@@ -0,0 +1,28 @@
+import ApiClient, { ApiAuth } from "../utils/ApiClient";
+import CircuitBreaker from "../utils/CircuitBreaker";
+
+// Signing takes precedence over a bearer token when both are configured
+const auth: ApiAuth | undefined = process.env.AI_API_HMAC_SECRET
+  ? {
+      type: "hmac",
+      secret: process.env.AI_API_HMAC_SECRET,
+      keyId: process.env.AI_API_HMAC_KEY_ID,
+    }
+  : process.env.AI_API_TOKEN
+  ? { type: "bearer", token: process.env.AI_API_TOKEN }
+  : undefined;
+
+// One circuit per endpoint, shared by every service calling the AI backend
+export const circuitBreaker = new CircuitBreaker({
+  failureThreshold: parseInt(process.env.AI_API_FAILURE_THRESHOLD || "5", 10),
+  cooldownMs: parseInt(process.env.AI_API_COOLDOWN_MS || "30000", 10),
+});
+
+const apiClient = new ApiClient(process.env.AI_API_BASE_URL || "", {
+  timeoutMs: parseInt(process.env.AI_API_TIMEOUT_MS || "10000", 10),
+  retries: parseInt(process.env.AI_API_RETRIES || "2", 10),
+  auth,
+  circuitBreaker,
+});
+
+export default apiClient;
@@ -0,0 +1,31 @@
+import pusher from "./pusher";
+import { RealtimePublisher } from "../realtime/RealtimePublisher";
+import { PusherPublisher } from "../realtime/PusherPublisher";
+import { WebSocketPublisher } from "../realtime/WebSocketPublisher";
+import { InMemoryPublisher } from "../realtime/InMemoryPublisher";
+import { REALTIME_TRANSPORT } from "../types";
+
+function createRealtimePublisher(
+  transport = process.env.REALTIME_TRANSPORT || REALTIME_TRANSPORT.PUSHER
+): RealtimePublisher {
+  switch (transport) {
+    case REALTIME_TRANSPORT.PUSHER:
+      return new PusherPublisher(pusher);
+    case REALTIME_TRANSPORT.WEBSOCKET:
+      if (!process.env.REALTIME_WS_SECRET) {
+        throw new Error("REALTIME_WS_SECRET is required by the websocket transport");
+      }
+      return new WebSocketPublisher({
+        port: parseInt(process.env.REALTIME_WS_PORT || "8080", 10),
+        secret: process.env.REALTIME_WS_SECRET,
+      });
+    case REALTIME_TRANSPORT.MEMORY:
+      return new InMemoryPublisher();
+    default:
+      throw new Error(`Unknown realtime transport: ${transport}`);
+  }
+}
+
+const realtime = createRealtimePublisher();
+
+export default realtime;
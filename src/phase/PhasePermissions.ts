@@ -0,0 +1,70 @@
+import {
+  GAME_PHASE,
+  PermissionDecision,
+  PHASE_ACTION,
+  PLAYER_STATUS,
+  SessionEventType,
+} from "../types";
+
+// Phase a session is in once the worker processed each event
+const EVENT_PHASES: Record<SessionEventType, GAME_PHASE> = {
+  SESSION_START: GAME_PHASE.WAITING,
+  AI_MESSAGE_START: GAME_PHASE.AI_MESSAGE,
+  AI_MESSAGE_END: GAME_PHASE.AI_MESSAGE,
+  ROUND_START: GAME_PHASE.DISCUSSION,
+  ROUND_END: GAME_PHASE.ELIMINATION,
+  ELIMINATION_START: GAME_PHASE.ELIMINATION,
+  ELIMINATION_END: GAME_PHASE.ELIMINATION,
+  VOTING_START: GAME_PHASE.VOTING,
+  VOTING_END: GAME_PHASE.WAITING,
+  SESSION_END: GAME_PHASE.ENDED,
+};
+
+// Actions active players may take in each phase; eliminated players and winners take none
+export const PHASE_PERMISSIONS: Record<GAME_PHASE, PHASE_ACTION[]> = {
+  [GAME_PHASE.WAITING]: [],
+  [GAME_PHASE.AI_MESSAGE]: [],
+  [GAME_PHASE.DISCUSSION]: [PHASE_ACTION.POST],
+  [GAME_PHASE.ELIMINATION]: [],
+  [GAME_PHASE.VOTING]: [PHASE_ACTION.VOTE],
+  [GAME_PHASE.ENDED]: [],
+};
+
+/**
+ * Maps the last event the worker processed to the session's phase.
+ * @param event - The last processed event (null before the session starts).
+ * @returns The phase.
+ */
+export function getPhaseForEvent(event: SessionEventType | null): GAME_PHASE {
+  return event ? EVENT_PHASES[event] ?? GAME_PHASE.WAITING : GAME_PHASE.WAITING;
+}
+
+/**
+ * Decides whether a player may take an action in a phase.
+ * @param action - The action.
+ * @param phase - The session's current phase.
+ * @param playerStatus - The player's status (undefined if they aren't in the lobby).
+ * @returns The decision with the reason of a refusal.
+ */
+export function checkPermission(
+  action: PHASE_ACTION,
+  phase: GAME_PHASE,
+  playerStatus?: PLAYER_STATUS
+): PermissionDecision {
+  if (playerStatus === undefined) {
+    return { allowed: false, reason: "Not a player of this lobby." };
+  }
+  if (playerStatus !== PLAYER_STATUS.ACTIVE) {
+    return {
+      allowed: false,
+      reason: `Players with status ${playerStatus} can't ${action}.`,
+    };
+  }
+  if (!PHASE_PERMISSIONS[phase].includes(action)) {
+    return {
+      allowed: false,
+      reason: `Can't ${action} during the ${phase} phase.`,
+    };
+  }
+  return { allowed: true };
+}
@@ -0,0 +1,162 @@
+import {
+  PrizeAllocation,
+  PrizeParticipant,
+  PrizePolicyConfig,
+  PRIZE_REMAINDER,
+  PRIZE_SPLIT,
+} from "../types";
+
+export interface PrizePolicy {
+  /**
+   * Computes the prize pool of a lobby in token base units.
+   * @param totalPlayers - Number of players that joined the lobby.
+   * @param entryFee - Entry fee per player in whole tokens.
+   */
+  computePrizePool(totalPlayers: number, entryFee: number | string): bigint;
+
+  /**
+   * Splits a prize pool between the participants of a lobby.
+   * @param prizePool - The pool in token base units.
+   * @param participants - Every player of the lobby, winners and eliminated.
+   * @returns The non-zero allocations, in recipient order.
+   */
+  allocate(
+    prizePool: bigint,
+    participants: PrizeParticipant[]
+  ): PrizeAllocation[];
+}
+
+// Matches the payout math used before prize policies were configurable
+export const DEFAULT_PRIZE_POLICY: PrizePolicyConfig = {
+  house_fee_percent: 5,
+  token_decimals: 6,
+  free_session_pool: "3000000000000",
+  split: PRIZE_SPLIT.EVEN,
+  remainder: PRIZE_REMAINDER.HOUSE,
+};
+
+type Share = { wallet_address: string; weight: bigint };
+
+// Each split returns the recipients with their relative weights
+const SPLITS: Record<PRIZE_SPLIT, (participants: PrizeParticipant[]) => Share[]> =
+  {
+    [PRIZE_SPLIT.WINNER_TAKE_ALL]: (participants) => {
+      const [topWinner] = participants
+        .filter((p) => p.is_winner)
+        .sort(
+          (a, b) =>
+            b.rounds_played - a.rounds_played ||
+            a.wallet_address.localeCompare(b.wallet_address)
+        );
+      return topWinner
+        ? [{ wallet_address: topWinner.wallet_address, weight: BigInt(1) }]
+        : [];
+    },
+    [PRIZE_SPLIT.EVEN]: (participants) =>
+      participants
+        .filter((p) => p.is_winner)
+        .map((p) => ({ wallet_address: p.wallet_address, weight: BigInt(1) })),
+    [PRIZE_SPLIT.WEIGHTED_BY_ROUNDS]: (participants) =>
+      participants
+        .filter((p) => p.rounds_played > 0)
+        .map((p) => ({
+          wallet_address: p.wallet_address,
+          weight: BigInt(Math.floor(p.rounds_played)),
+        })),
+  };
+
+export class ConfigurablePrizePolicy implements PrizePolicy {
+  private config: PrizePolicyConfig;
+
+  constructor(config: PrizePolicyConfig) {
+    if (!(config.split in SPLITS)) {
+      throw new Error(`Unknown prize split: ${config.split}`);
+    }
+    if (!Object.values(PRIZE_REMAINDER).includes(config.remainder)) {
+      throw new Error(`Unknown prize remainder rule: ${config.remainder}`);
+    }
+    if (config.house_fee_percent < 0 || config.house_fee_percent > 100) {
+      throw new Error(
+        `House fee must be between 0 and 100, got ${config.house_fee_percent}`
+      );
+    }
+    this.config = config;
+  }
+
+  computePrizePool(totalPlayers: number, entryFee: number | string): bigint {
+    const fee = BigInt(entryFee);
+
+    if (fee === BigInt(0)) {
+      return BigInt(this.config.free_session_pool);
+    }
+
+    // Basis points keep fractional fee percentages in integer math
+    const houseFeeBps = BigInt(Math.round(this.config.house_fee_percent * 100));
+    const collected =
+      BigInt(totalPlayers) *
+      fee *
+      BigInt(10) ** BigInt(this.config.token_decimals);
+
+    return (collected * (BigInt(10000) - houseFeeBps)) / BigInt(10000);
+  }
+
+  allocate(
+    prizePool: bigint,
+    participants: PrizeParticipant[]
+  ): PrizeAllocation[] {
+    const shares = SPLITS[this.config.split](participants);
+    const totalWeight = shares.reduce((sum, s) => sum + s.weight, BigInt(0));
+
+    if (shares.length === 0 || totalWeight === BigInt(0)) {
+      return [];
+    }
+
+    const allocations = shares.map((share) => ({
+      wallet_address: share.wallet_address,
+      amount: (prizePool * share.weight) / totalWeight,
+    }));
+
+    let remainder =
+      prizePool - allocations.reduce((sum, a) => sum + a.amount, BigInt(0));
+
+    switch (this.config.remainder) {
+      case PRIZE_REMAINDER.FIRST_RECIPIENT:
+        allocations[0].amount += remainder;
+        break;
+
+      case PRIZE_REMAINDER.SPREAD:
+        for (let i = 0; remainder > BigInt(0); i = (i + 1) % allocations.length) {
+          allocations[i].amount += BigInt(1);
+          remainder -= BigInt(1);
+        }
+        break;
+
+      case PRIZE_REMAINDER.HOUSE:
+        break;
+    }
+
+    return allocations.filter((a) => a.amount > BigInt(0));
+  }
+}
+
+/**
+ * Fills unset options of a session's stored policy with the defaults.
+ * @param config - The session's stored policy (may be partial or missing).
+ * @returns The complete policy configuration.
+ */
+export function resolvePrizePolicyConfig(
+  config?: Partial<PrizePolicyConfig> | null
+): PrizePolicyConfig {
+  return { ...DEFAULT_PRIZE_POLICY, ...config };
+}
+
+/**
+ * Builds the prize policy of a session, filling unset options with the defaults.
+ * @param config - The session's stored policy (may be partial or missing).
+ * @returns The prize policy.
+ */
+export function createPrizePolicy(
+  config?: Partial<PrizePolicyConfig> | null
+): PrizePolicy {
+  return new ConfigurablePrizePolicy(resolvePrizePolicyConfig(config));
+}
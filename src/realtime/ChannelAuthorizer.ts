@@ -0,0 +1,98 @@
+import PlayerService from "../services/PlayerService";
+import { RealtimePublisher } from "./RealtimePublisher";
+import {
+  buildChannelAuthMessage,
+  isSignatureFresh,
+  verifyWalletSignature,
+} from "../auth/WalletSignature";
+import { ChannelAuthorization, ChannelAuthRequest } from "../types";
+
+export interface ChannelAuthorizerOptions {
+  maxSignatureAgeMs?: number; // Age after which a signed request is refused
+  operatorWallets?: string[]; // Wallets allowed to join the ops channel
+}
+
+const OPS_CHANNEL = "private-ops";
+const PLAYER_CHANNEL = /^private-player-(.+)$/;
+const LOBBY_CHANNEL = /^(private|presence)-lobby-(\d+)$/;
+
+/**
+ * Decides who may join private and presence channels:
+ * - `private-player-{wallet}`: only the owner of the wallet;
+ * - `private-lobby-{lobbyId}` and `presence-lobby-{lobbyId}`: only the lobby's members;
+ * - `private-ops`: only the configured operator wallets.
+ * Clients prove they own their wallet by signing the auth message with it.
+ */
+export class ChannelAuthorizer {
+  private publisher: RealtimePublisher;
+  private playerService: PlayerService;
+  private maxSignatureAgeMs: number;
+  private operatorWallets: Set<string>;
+
+  constructor(
+    publisher: RealtimePublisher,
+    playerService: PlayerService,
+    options: ChannelAuthorizerOptions = {}
+  ) {
+    this.publisher = publisher;
+    this.playerService = playerService;
+    this.maxSignatureAgeMs = options.maxSignatureAgeMs ?? 5 * 60 * 1000;
+    this.operatorWallets = new Set(options.operatorWallets || []);
+  }
+
+  /**
+   * Checks that the client owns the wallet and may join the channel, then signs
+   * the subscription.
+   * @param request - The channel auth request.
+   * @returns The authorization to hand back to the client.
+   * @throws If the signature is invalid or stale, or the wallet may not join the channel.
+   */
+  async authorize(request: ChannelAuthRequest): Promise<ChannelAuthorization> {
+    const {
+      socket_id: socketId,
+      channel_name: channel,
+      wallet_address: walletAddress,
+      timestamp,
+      signature,
+    } = request;
+
+    if (!isSignatureFresh(timestamp, this.maxSignatureAgeMs)) {
+      throw new Error("Signature expired.");
+    }
+
+    const message = buildChannelAuthMessage(channel, socketId, timestamp);
+    if (!verifyWalletSignature(walletAddress, message, signature)) {
+      throw new Error("Invalid wallet signature.");
+    }
+
+    if (channel === OPS_CHANNEL) {
+      if (!this.operatorWallets.has(walletAddress)) {
+        throw new Error(`${walletAddress} is not an operator.`);
+      }
+      return this.publisher.authorizeChannel(socketId, channel);
+    }
+
+    const playerMatch = channel.match(PLAYER_CHANNEL);
+    if (playerMatch) {
+      if (playerMatch[1] !== walletAddress) {
+        throw new Error(`${walletAddress} may not join ${channel}.`);
+      }
+      return this.publisher.authorizeChannel(socketId, channel);
+    }
+
+    const lobbyMatch = channel.match(LOBBY_CHANNEL);
+    if (lobbyMatch) {
+      const lobbyId = parseInt(lobbyMatch[2], 10);
+      if (!(await this.playerService.isLobbyMember(lobbyId, walletAddress))) {
+        throw new Error(`${walletAddress} is not a member of lobby ${lobbyId}.`);
+      }
+      return lobbyMatch[1] === "presence"
+        ? this.publisher.authorizeChannel(socketId, channel, {
+            user_id: walletAddress,
+          })
+        : this.publisher.authorizeChannel(socketId, channel);
+    }
+
+    throw new Error(`Unknown private channel: ${channel}`);
+  }
+}
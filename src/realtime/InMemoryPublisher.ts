@@ -0,0 +1,61 @@
+import { RealtimePublisher } from "./RealtimePublisher";
+import {
+  ChannelAuthorization,
+  PresenceMember,
+  RecordedRealtimeEvent,
+} from "../types";
+
+/**
+ * Records published events instead of sending them, for tests and offline runs.
+ */
+export class InMemoryPublisher implements RealtimePublisher {
+  private events: RecordedRealtimeEvent[] = [];
+
+  async trigger(channel: string, event: string, data: unknown): Promise<void> {
+    this.events.push({
+      channel,
+      event,
+      data,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  authorizeChannel(
+    socketId: string,
+    channel: string,
+    member?: PresenceMember
+  ): ChannelAuthorization {
+    const channelData = member ? JSON.stringify(member) : undefined;
+    return {
+      auth: `memory:${socketId}:${channel}`,
+      ...(channelData ? { channel_data: channelData } : {}),
+    };
+  }
+
+  /**
+   * Returns the recorded events, oldest first.
+   * @param channel - Restricts the events to one channel (optional).
+   * @param event - Restricts the events to one event name (optional).
+   * @returns The recorded events.
+   */
+  getEvents(channel?: string, event?: string): RecordedRealtimeEvent[] {
+    return this.events.filter(
+      (recorded) =>
+        (channel === undefined || recorded.channel === channel) &&
+        (event === undefined || recorded.event === event)
+    );
+  }
+
+  /**
+   * Forgets every recorded event.
+   */
+  clear(): void {
+    this.events = [];
+  }
+
+  async start(): Promise<void> {}
+
+  async close(): Promise<void> {
+    this.clear();
+  }
+}
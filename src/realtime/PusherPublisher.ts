@@ -0,0 +1,30 @@
+import Pusher from "pusher";
+import { RealtimePublisher } from "./RealtimePublisher";
+import { ChannelAuthorization, PresenceMember } from "../types";
+
+/**
+ * Publishes through the hosted Pusher service.
+ */
+export class PusherPublisher implements RealtimePublisher {
+  private pusher: Pusher;
+
+  constructor(pusher: Pusher) {
+    this.pusher = pusher;
+  }
+
+  async trigger(channel: string, event: string, data: unknown): Promise<void> {
+    await this.pusher.trigger(channel, event, data);
+  }
+
+  authorizeChannel(
+    socketId: string,
+    channel: string,
+    member?: PresenceMember
+  ): ChannelAuthorization {
+    return this.pusher.authorizeChannel(socketId, channel, member);
+  }
+
+  async start(): Promise<void> {}
+
+  async close(): Promise<void> {}
+}
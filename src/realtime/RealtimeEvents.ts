@@ -0,0 +1,221 @@
+import { RealtimePublisher } from "./RealtimePublisher";
+import { RealtimeEventName, RealtimeEventPayloads } from "../types";
+
+export interface ChannelDefinition<P> {
+  pattern: string; // Channel name with placeholders, for documentation
+  build: (payload: P) => string; // Channel an event with this payload goes to
+}
+
+export interface RealtimeEventDefinition<P> {
+  version: number; // Schema version, bumped on every breaking payload change
+  channel: ChannelDefinition<P>;
+  description: string;
+}
+
+export const CHANNELS = {
+  // Every client: session announcements
+  sessions: {
+    pattern: "sessions",
+    build: () => "sessions",
+  },
+  // Clients of one session: session and round lifecycle
+  session: {
+    pattern: "session-{sessionId}",
+    build: (payload: { sessionId: number }) => `session-${payload.sessionId}`,
+  },
+  // Members of one lobby: forum, eliminations and votes
+  lobby: {
+    pattern: "private-lobby-{lobbyId}",
+    build: (payload: { lobbyId: number }) => `private-lobby-${payload.lobbyId}`,
+  },
+  // One player: their eliminations, winnings and payouts
+  player: {
+    pattern: "private-player-{wallet}",
+    build: (payload: { wallet: string }) => `private-player-${payload.wallet}`,
+  },
+  // Operators: health of the backends (error details included)
+  ops: {
+    pattern: "private-ops",
+    build: () => "private-ops",
+  },
+};
+
+export const REALTIME_EVENTS: {
+  [E in RealtimeEventName]: RealtimeEventDefinition<RealtimeEventPayloads[E]>;
+} = {
+  "session-created": {
+    version: 1,
+    channel: CHANNELS.sessions,
+    description: "A session was created.",
+  },
+  "new-session": {
+    version: 1,
+    channel: CHANNELS.sessions,
+    description: "The scheduler picked up a new session.",
+  },
+  "session-rescheduled": {
+    version: 1,
+    channel: CHANNELS.sessions,
+    description: "An admin moved a session that hadn't started to a new time.",
+  },
+  "session-cancelled": {
+    version: 1,
+    channel: CHANNELS.sessions,
+    description: "An admin cancelled a session; it won't run or continue.",
+  },
+  "session-start": {
+    version: 1,
+    channel: CHANNELS.session,
+    description: "The session started and its players were put in lobbies.",
+  },
+  "session-end": {
+    version: 1,
+    channel: CHANNELS.session,
+    description: "The session ended (or was cancelled for lack of players).",
+  },
+  "phase-changed": {
+    version: 1,
+    channel: CHANNELS.session,
+    description: "The session entered a new phase; lock or unlock the forum and voting UI.",
+  },
+  "round-created": {
+    version: 1,
+    channel: CHANNELS.session,
+    description: "A round was scheduled.",
+  },
+  "ai-decision": {
+    version: 1,
+    channel: CHANNELS.session,
+    description: "The AI decision of a round was recorded.",
+  },
+  "ai-message-start": {
+    version: 1,
+    channel: CHANNELS.session,
+    description: "The AI message phase of a round started.",
+  },
+  "ai-message-end": {
+    version: 1,
+    channel: CHANNELS.session,
+    description: "The AI message phase of a round ended.",
+  },
+  "round-start": {
+    version: 1,
+    channel: CHANNELS.session,
+    description: "The discussion phase of a round started.",
+  },
+  "round-end": {
+    version: 1,
+    channel: CHANNELS.session,
+    description: "The discussion phase of a round ended.",
+  },
+  "voting-start": {
+    version: 1,
+    channel: CHANNELS.session,
+    description: "The voting phase of a round started.",
+  },
+  "lobby-created": {
+    version: 1,
+    channel: CHANNELS.session,
+    description: "Players were assigned to a lobby.",
+  },
+  "lobby-waitlist": {
+    version: 1,
+    channel: CHANNELS.session,
+    description: "Players didn't fit in a lobby and were waitlisted.",
+  },
+  "lobby-update": {
+    version: 1,
+    channel: CHANNELS.lobby,
+    description: "Free-form update of a lobby.",
+  },
+  "forum-message": {
+    version: 1,
+    channel: CHANNELS.lobby,
+    description: "A player posted a message in the lobby forum.",
+  },
+  "forum-clear": {
+    version: 1,
+    channel: CHANNELS.lobby,
+    description: "The lobby forum was cleared.",
+  },
+  "voting-update": {
+    version: 1,
+    channel: CHANNELS.lobby,
+    description: "The vote tally of the lobby changed.",
+  },
+  "round-decision": {
+    version: 1,
+    channel: CHANNELS.lobby,
+    description: "The AI decided the lobby's eliminations for the round.",
+  },
+  "game-end": {
+    version: 1,
+    channel: CHANNELS.lobby,
+    description: "Only one player is left; the lobby's game is over.",
+  },
+  "elimination-start": {
+    version: 1,
+    channel: CHANNELS.lobby,
+    description: "Players of the lobby were eliminated.",
+  },
+  "elimination-end": {
+    version: 1,
+    channel: CHANNELS.lobby,
+    description: "The elimination phase of the lobby ended.",
+  },
+  "voting-result": {
+    version: 1,
+    channel: CHANNELS.lobby,
+    description: "The lobby's vote was decided.",
+  },
+  "player-eliminated": {
+    version: 1,
+    channel: CHANNELS.player,
+    description: "You were eliminated.",
+  },
+  "player-won": {
+    version: 1,
+    channel: CHANNELS.player,
+    description: "You won a share of the prize.",
+  },
+  "payout-confirmed": {
+    version: 1,
+    channel: CHANNELS.player,
+    description: "Your prize was airdropped.",
+  },
+  "circuit-state-changed": {
+    version: 1,
+    channel: CHANNELS.ops,
+    description: "A circuit breaker of an AI backend endpoint changed state.",
+  },
+};
+
+/**
+ * Checks whether clients need a signed authorization to join a channel.
+ * @param channel - The channel name.
+ */
+export function isProtectedChannel(channel: string): boolean {
+  return channel.startsWith("private-") || channel.startsWith("presence-");
+}
+
+/**
+ * Publishes a catalogued event to its channel. The payload is sent with the
+ * event's `schemaVersion` so clients can detect breaking changes.
+ * @param publisher - The realtime publisher.
+ * @param event - The event name.
+ * @param payload - The event payload.
+ */
+export async function publishEvent<E extends RealtimeEventName>(
+  publisher: RealtimePublisher,
+  event: E,
+  payload: RealtimeEventPayloads[E]
+): Promise<void> {
+  const definition = REALTIME_EVENTS[event] as RealtimeEventDefinition<
+    RealtimeEventPayloads[E]
+  >;
+
+  await publisher.trigger(definition.channel.build(payload), event, {
+    ...payload,
+    schemaVersion: definition.version,
+  });
+}
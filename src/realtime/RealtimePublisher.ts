@@ -0,0 +1,38 @@
+import { ChannelAuthorization, PresenceMember } from "../types";
+
+/**
+ * Publishes real-time events to clients subscribed to a channel.
+ */
+export interface RealtimePublisher {
+  /**
+   * Publishes an event to every subscriber of a channel.
+   * @param channel - The channel (e.g. `private-lobby-12`).
+   * @param event - The event name (e.g. `forum-message`).
+   * @param data - The JSON-serializable payload.
+   */
+  trigger(channel: string, event: string, data: unknown): Promise<void>;
+
+  /**
+   * Signs a socket's access to a private or presence channel. Callers must have
+   * checked that the client may join the channel.
+   * @param socketId - The socket asking to join.
+   * @param channel - The `private-` or `presence-` channel.
+   * @param member - The member to announce (presence channels only).
+   * @returns The authorization to hand back to the client.
+   */
+  authorizeChannel(
+    socketId: string,
+    channel: string,
+    member?: PresenceMember
+  ): ChannelAuthorization;
+
+  /**
+   * Starts accepting connections, for transports that serve clients themselves.
+   */
+  start(): Promise<void>;
+
+  /**
+   * Stops the transport and disconnects its clients.
+   */
+  close(): Promise<void>;
+}
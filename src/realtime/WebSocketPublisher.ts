@@ -0,0 +1,245 @@
+import crypto from "crypto";
+import { WebSocketServer, WebSocket, RawData } from "ws";
+import { RealtimePublisher } from "./RealtimePublisher";
+import { isProtectedChannel } from "./RealtimeEvents";
+import {
+  ChannelAuthorization,
+  PresenceMember,
+  RealtimeClientMessage,
+  RealtimeServerMessage,
+} from "../types";
+
+export interface WebSocketPublisherOptions {
+  port: number; // Port the server listens on
+  secret: string; // Key signing private and presence channel authorizations
+  heartbeatIntervalMs?: number; // Interval of the pings that drop dead connections
+}
+
+/**
+ * Self-hosted WebSocket server. Clients receive `{ type: "connected", socketId }`,
+ * send `{ type: "subscribe", channel }` and receive `{ type: "event", channel, event, data }`
+ * for every event of their channels. Private and presence channels need the `auth`
+ * (and `channel_data`) returned by the channel auth endpoint.
+ */
+export class WebSocketPublisher implements RealtimePublisher {
+  private options: WebSocketPublisherOptions;
+  private server: WebSocketServer | null = null;
+  private subscriptions = new Map<string, Set<WebSocket>>();
+  private alive = new WeakMap<WebSocket, boolean>();
+  private socketIds = new WeakMap<WebSocket, string>();
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: WebSocketPublisherOptions) {
+    this.options = options;
+  }
+
+  async trigger(channel: string, event: string, data: unknown): Promise<void> {
+    const subscribers = this.subscriptions.get(channel);
+    if (!subscribers) {
+      return;
+    }
+
+    const message = JSON.stringify({
+      type: "event",
+      channel,
+      event,
+      data,
+    } as RealtimeServerMessage);
+
+    for (const socket of subscribers) {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(message);
+      }
+    }
+  }
+
+  authorizeChannel(
+    socketId: string,
+    channel: string,
+    member?: PresenceMember
+  ): ChannelAuthorization {
+    const channelData = member ? JSON.stringify(member) : undefined;
+    return {
+      auth: this.sign(socketId, channel, channelData),
+      ...(channelData ? { channel_data: channelData } : {}),
+    };
+  }
+
+  async start(): Promise<void> {
+    if (this.server) {
+      return;
+    }
+
+    const server = new WebSocketServer({ port: this.options.port });
+    this.server = server;
+    server.on("connection", (socket) => this.handleConnection(socket));
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("listening", resolve);
+      server.once("error", reject);
+    });
+
+    this.heartbeatTimer = setInterval(
+      () => this.checkHeartbeats(),
+      this.options.heartbeatIntervalMs ?? 30 * 1000
+    );
+
+    console.log(`WebSocket server listening on port ${this.options.port}.`);
+  }
+
+  async close(): Promise<void> {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = null;
+    for (const socket of server.clients) {
+      socket.terminate();
+    }
+    this.subscriptions.clear();
+
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    console.log("WebSocket server closed.");
+  }
+
+  private handleConnection(socket: WebSocket): void {
+    const socketId = `${crypto.randomInt(1e9)}.${crypto.randomInt(1e9)}`;
+    this.alive.set(socket, true);
+    this.socketIds.set(socket, socketId);
+
+    socket.on("pong", () => this.alive.set(socket, true));
+    socket.on("message", (raw) => this.handleMessage(socket, raw));
+    socket.on("close", () => this.unsubscribeAll(socket));
+    socket.on("error", (err) => {
+      console.error("WebSocket client error:", err);
+      this.unsubscribeAll(socket);
+    });
+
+    this.send(socket, { type: "connected", socketId });
+  }
+
+  private handleMessage(socket: WebSocket, raw: RawData): void {
+    let message: RealtimeClientMessage;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      this.send(socket, { type: "error", message: "Invalid JSON message." });
+      return;
+    }
+
+    switch (message?.type) {
+      case "subscribe":
+        if (typeof message.channel !== "string" || message.channel === "") {
+          this.send(socket, { type: "error", message: "Missing channel." });
+          return;
+        }
+        if (
+          isProtectedChannel(message.channel) &&
+          !this.verify(socket, message.channel, message.auth, message.channel_data)
+        ) {
+          this.send(socket, {
+            type: "error",
+            message: `Not authorized to subscribe to ${message.channel}.`,
+          });
+          return;
+        }
+        this.subscribe(socket, message.channel);
+        this.send(socket, { type: "subscribed", channel: message.channel });
+        break;
+
+      case "unsubscribe":
+        this.unsubscribe(socket, message.channel);
+        this.send(socket, { type: "unsubscribed", channel: message.channel });
+        break;
+
+      case "ping":
+        this.send(socket, { type: "pong" });
+        break;
+
+      default:
+        this.send(socket, { type: "error", message: "Unknown message type." });
+    }
+  }
+
+  private sign(socketId: string, channel: string, channelData?: string): string {
+    const payload = [socketId, channel, channelData]
+      .filter((part) => part !== undefined)
+      .join(":");
+    return crypto
+      .createHmac("sha256", this.options.secret)
+      .update(payload)
+      .digest("hex");
+  }
+
+  private verify(
+    socket: WebSocket,
+    channel: string,
+    auth?: string,
+    channelData?: string
+  ): boolean {
+    const socketId = this.socketIds.get(socket);
+    if (!socketId || typeof auth !== "string") {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(socketId, channel, channelData));
+    const actual = Buffer.from(auth);
+    return (
+      expected.length === actual.length &&
+      crypto.timingSafeEqual(expected, actual)
+    );
+  }
+
+  private subscribe(socket: WebSocket, channel: string): void {
+    let subscribers = this.subscriptions.get(channel);
+    if (!subscribers) {
+      subscribers = new Set();
+      this.subscriptions.set(channel, subscribers);
+    }
+    subscribers.add(socket);
+  }
+
+  private unsubscribe(socket: WebSocket, channel: string): void {
+    const subscribers = this.subscriptions.get(channel);
+    if (!subscribers) {
+      return;
+    }
+
+    subscribers.delete(socket);
+    if (subscribers.size === 0) {
+      this.subscriptions.delete(channel);
+    }
+  }
+
+  private unsubscribeAll(socket: WebSocket): void {
+    for (const channel of [...this.subscriptions.keys()]) {
+      this.unsubscribe(socket, channel);
+    }
+  }
+
+  // Terminate clients that didn't answer the previous ping
+  private checkHeartbeats(): void {
+    for (const socket of this.server?.clients ?? []) {
+      if (!this.alive.get(socket)) {
+        this.unsubscribeAll(socket);
+        socket.terminate();
+        continue;
+      }
+
+      this.alive.set(socket, false);
+      socket.ping();
+    }
+  }
+
+  private send(socket: WebSocket, message: RealtimeServerMessage): void {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }
+}
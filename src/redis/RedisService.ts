@@ -37,6 +37,41 @@ export class RedisService {
     return this.keyValueClient.del(key);
   }
 
+  async delMany(keys: string[]): Promise<number> {
+    if (keys.length === 0) {
+      return 0;
+    }
+    return this.keyValueClient.del(...keys);
+  }
+
+  async incr(key: string): Promise<number> {
+    return this.keyValueClient.incr(key);
+  }
+
+  // Expire a key after the given number of milliseconds
+  async pexpire(key: string, milliseconds: number): Promise<number> {
+    return this.keyValueClient.pexpire(key, milliseconds);
+  }
+
+  async type(key: string): Promise<string> {
+    return this.keyValueClient.type(key);
+  }
+
+  // Collect every key matching a glob pattern using SCAN (never KEYS)
+  async scanKeys(pattern: string): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor: string | number = 0;
+
+    do {
+      const [nextCursor, batch]: [string | number, string[]] =
+        await this.keyValueClient.scan(cursor, { match: pattern, count: 100 });
+      keys.push(...batch);
+      cursor = nextCursor;
+    } while (String(cursor) !== "0");
+
+    return keys;
+  }
+
   // List Operations
   async lpush(key: string, value: string): Promise<number> {
     return this.keyValueClient.lpush(key, value);
@@ -84,27 +119,25 @@ export class RedisService {
     return result > 0; // Redis returns 1 if the key exists, 0 otherwise
   }
 
-  // Clear voting data for a specific lobby
-  async clearVotes(lobbyId: string): Promise<void> {
-    const votesKey = `lobby:${lobbyId}:votes`;
-    const userVotesKey = `lobby:${lobbyId}:userVotes`;
+  async hget(key: string, field: string): Promise<string | null> {
+    return this.keyValueClient.hget(key, field);
+  }
 
-    try {
-      // Reset the fields within the votes hash
-      await this.keyValueClient.hset(votesKey, { continue: 0, share: 0 });
+  // Set a hash field only if it does not exist yet; returns 1 if it was set
+  async hsetnx(key: string, field: string, value: string): Promise<number> {
+    return this.keyValueClient.hsetnx(key, field, value);
+  }
 
-      // Delete all user votes in the userVotes hash
-      await this.keyValueClient.del(userVotesKey);
+  async hset(key: string, field: string, value: string): Promise<number> {
+    return this.keyValueClient.hset(key, { [field]: value });
+  }
 
-      console.log(`Votes cleared for lobby: ${lobbyId}`);
-    } catch (err) {
-      console.error(`Error clearing votes for lobby ${lobbyId}:`, err);
-      throw err;
-    }
+  async hincrby(key: string, field: string, increment: number): Promise<number> {
+    return this.keyValueClient.hincrby(key, field, increment);
   }
 
-  async hget(key: string, field: string): Promise<string | null> {
-    return this.keyValueClient.hget(key, field);
+  async hgetall(key: string): Promise<Record<string, unknown> | null> {
+    return this.keyValueClient.hgetall(key);
   }
 
   // Flush all data in Redis
@@ -0,0 +1,160 @@
+import { RoundSchedule, RoundTimelineConfig, Session } from "../types";
+
+export const DEFAULT_ROUND_TIMELINE: RoundTimelineConfig = {
+  initial_wait_ms: 10 * 1000,
+  ai_message_ms: 10 * 1000,
+  discussion_ms: null,
+  elimination_ms: 10 * 1000,
+  voting_ms: 10 * 1000,
+};
+
+// Phase timestamps of a round in chronological order
+const PHASE_BOUNDARIES: (keyof Omit<RoundSchedule, "round_number">)[] = [
+  "ai_message_start",
+  "ai_message_end",
+  "start_time",
+  "end_time",
+  "elimination_start",
+  "elimination_end",
+  "voting_start_time",
+  "voting_end_time",
+];
+
+/**
+ * Fills unset options of a session's stored timeline config with the defaults.
+ * @param config - The session's stored config (may be partial or missing).
+ * @returns The complete config.
+ */
+export function resolveRoundTimelineConfig(
+  config?: Partial<RoundTimelineConfig> | null
+): RoundTimelineConfig {
+  return { ...DEFAULT_ROUND_TIMELINE, ...config };
+}
+
+/**
+ * Lays out a session's rounds back to back after the initial wait. Each round runs
+ * its AI message, discussion, elimination and voting phases in turn. Without a
+ * configured discussion length, discussions share the rest of the session window.
+ * @param session - The session window, round count and timeline config.
+ * @returns The schedule of every round.
+ * @throws If the durations are invalid or the rounds don't fit in the session window.
+ */
+export function buildRoundTimeline(
+  session: Pick<
+    Session,
+    "start_time" | "end_time" | "total_rounds" | "round_timeline"
+  >
+): RoundSchedule[] {
+  const config = resolveRoundTimelineConfig(session.round_timeline);
+  const sessionStart = new Date(session.start_time).getTime();
+  const sessionEnd = new Date(session.end_time).getTime();
+  const totalRounds = session.total_rounds;
+
+  if (!Number.isInteger(totalRounds) || totalRounds < 1) {
+    throw new Error(`A session needs at least one round, got ${totalRounds}.`);
+  }
+  for (const key of [
+    "initial_wait_ms",
+    "ai_message_ms",
+    "elimination_ms",
+    "voting_ms",
+  ] as const) {
+    if (!Number.isInteger(config[key]) || config[key] < 0) {
+      throw new Error(`${key} must be a non-negative integer.`);
+    }
+  }
+
+  const fixedRoundMs =
+    config.ai_message_ms + config.elimination_ms + config.voting_ms;
+  const availableMs = sessionEnd - sessionStart - config.initial_wait_ms;
+  const fillsWindow =
+    config.discussion_ms === null || config.discussion_ms === undefined;
+  const discussionMs: number = fillsWindow
+    ? Math.floor((availableMs - fixedRoundMs * totalRounds) / totalRounds)
+    : Number(config.discussion_ms);
+
+  if (!Number.isInteger(discussionMs) || discussionMs <= 0) {
+    throw new Error(
+      fillsWindow
+        ? `The session window leaves no time for discussion in ${totalRounds} rounds.`
+        : "discussion_ms must be a positive integer."
+    );
+  }
+
+  // Durations of the phases, in the order of PHASE_BOUNDARIES
+  const phases = [
+    config.ai_message_ms,
+    discussionMs,
+    config.elimination_ms,
+    config.voting_ms,
+  ];
+
+  const rounds: RoundSchedule[] = [];
+  let time = sessionStart + config.initial_wait_ms;
+
+  for (let i = 0; i < totalRounds; i++) {
+    const boundaries: string[] = [];
+    for (const duration of phases) {
+      boundaries.push(new Date(time).toISOString());
+      time += duration;
+      boundaries.push(new Date(time).toISOString());
+    }
+
+    const round = { round_number: i + 1 } as RoundSchedule;
+    PHASE_BOUNDARIES.forEach((key, index) => {
+      round[key] = boundaries[index];
+    });
+    rounds.push(round);
+  }
+
+  const problems = validateRoundTimeline(
+    rounds,
+    session.start_time,
+    session.end_time
+  );
+  if (problems.length > 0) {
+    throw new Error(problems.join(" "));
+  }
+
+  return rounds;
+}
+
+/**
+ * Checks that rounds are complete, in order, don't overlap and fit in the session window.
+ * @param rounds - The rounds, in round order.
+ * @param startTime - The session start (ISO date string).
+ * @param endTime - The session end (ISO date string).
+ * @returns One message per problem (empty if the timeline is valid).
+ */
+export function validateRoundTimeline(
+  rounds: RoundSchedule[],
+  startTime: string,
+  endTime: string
+): string[] {
+  const problems: string[] = [];
+  let previous = new Date(startTime).getTime();
+  let previousLabel = "the session start";
+
+  for (const round of rounds) {
+    for (const key of PHASE_BOUNDARIES) {
+      const time = new Date(round[key]).getTime();
+      const label = `${key} of round ${round.round_number}`;
+
+      if (Number.isNaN(time)) {
+        problems.push(`${label} is not set.`);
+        continue;
+      }
+      if (time < previous) {
+        problems.push(`${label} is before ${previousLabel}.`);
+      }
+      previous = time;
+      previousLabel = label;
+    }
+  }
+
+  if (previous > new Date(endTime).getTime()) {
+    problems.push(`${previousLabel} is after the session end.`);
+  }
+
+  return problems;
+}
@@ -0,0 +1,69 @@
+import pool from "../db";
+import { InMemoryPublisher } from "../realtime/InMemoryPublisher";
+import { RedisService } from "../redis/RedisService";
+import LobbyService from "../services/LobbyService";
+import ForumService from "../services/ForumService";
+import RoundService from "../services/RoundService";
+import ForumArchiveService from "../services/ForumArchiveService";
+import PhaseService from "../services/PhaseService";
+import PresenceService from "../services/PresenceService";
+import { TRANSCRIPT_FORMAT } from "../types";
+
+/**
+ * Prints the archived forum transcript of a session, with eliminations and votes interleaved.
+ * Usage: npm run export:transcript -- <sessionId> [--lobby <lobbyId>] [--format json|markdown]
+ */
+(async () => {
+  const args = process.argv.slice(2);
+  const option = (name: string) => {
+    const index = args.indexOf(`--${name}`);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  const sessionId = parseInt(args[0], 10);
+  const lobbyOption = option("lobby");
+  const lobbyId = lobbyOption ? parseInt(lobbyOption, 10) : undefined;
+  const format = (option("format") || TRANSCRIPT_FORMAT.MARKDOWN) as TRANSCRIPT_FORMAT;
+
+  if (
+    Number.isNaN(sessionId) ||
+    Number.isNaN(lobbyId) ||
+    !Object.values(TRANSCRIPT_FORMAT).includes(format)
+  ) {
+    console.error(
+      "Usage: npm run export:transcript -- <sessionId> [--lobby <lobbyId>] [--format json|markdown]"
+    );
+    process.exitCode = 1;
+    await pool.end();
+    return;
+  }
+
+  const redis = new RedisService();
+  // Exporting publishes nothing
+  const publisher = new InMemoryPublisher();
+  const phaseService = new PhaseService(redis, publisher);
+  const forumService = new ForumService(
+    redis,
+    new LobbyService(redis, publisher),
+    phaseService,
+    new PresenceService(redis, phaseService),
+    publisher
+  );
+  const forumArchiveService = new ForumArchiveService(
+    pool,
+    forumService,
+    new RoundService(pool, publisher)
+  );
+
+  try {
+    console.log(
+      await forumArchiveService.exportTranscript(sessionId, format, lobbyId)
+    );
+  } catch (error) {
+    console.error("Error exporting transcript:", error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+    await redis.disconnect();
+  }
+})();
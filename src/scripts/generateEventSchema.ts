@@ -0,0 +1,231 @@
+import fs from "fs";
+import path from "path";
+import ts from "typescript";
+import { REALTIME_EVENTS } from "../realtime/RealtimeEvents";
+import { RealtimeEventName } from "../types";
+
+type JsonSchema = Record<string, unknown>;
+
+const TYPES_FILE = path.resolve(__dirname, "../types/RealtimeEvents.ts");
+const OUTPUT_FILE = path.resolve(
+  __dirname,
+  "../../schemas/realtime-events.schema.json"
+);
+
+/**
+ * Generates the JSON schema of every realtime event from `RealtimeEventPayloads`
+ * and the event catalogue, for the frontend.
+ * Usage: npm run generate:event-schema
+ */
+(() => {
+  const program = ts.createProgram([TYPES_FILE], {
+    strict: true,
+    target: ts.ScriptTarget.ES2020,
+  });
+  const checker = program.getTypeChecker();
+  const sourceFile = program.getSourceFile(TYPES_FILE);
+
+  const payloadsDeclaration = sourceFile?.statements.find(
+    (statement): statement is ts.InterfaceDeclaration =>
+      ts.isInterfaceDeclaration(statement) &&
+      statement.name.text === "RealtimeEventPayloads"
+  );
+  if (!payloadsDeclaration) {
+    console.error(`RealtimeEventPayloads not found in ${TYPES_FILE}.`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const definitions: Record<string, JsonSchema> = {};
+  const toSchema = createConverter(checker, definitions);
+  const events: Record<string, JsonSchema> = {};
+
+  const payloadsType = checker.getTypeAtLocation(payloadsDeclaration);
+  for (const property of checker.getPropertiesOfType(payloadsType)) {
+    const name = property.getName() as RealtimeEventName;
+    const definition = REALTIME_EVENTS[name];
+    const payloadType = checker.getTypeOfSymbolAtLocation(
+      property,
+      payloadsDeclaration
+    );
+
+    events[name] = {
+      description: definition.description,
+      channel: definition.channel.pattern,
+      version: definition.version,
+      payload: {
+        allOf: [
+          toSchema(payloadType),
+          {
+            type: "object",
+            properties: { schemaVersion: { const: definition.version } },
+            required: ["schemaVersion"],
+          },
+        ],
+      },
+    };
+  }
+
+  const schema = {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    $id: "realtime-events.schema.json",
+    title: "Realtime events",
+    description:
+      "Generated from src/types/RealtimeEvents.ts by `npm run generate:event-schema`. Do not edit.",
+    events,
+    definitions,
+  };
+
+  fs.mkdirSync(path.dirname(OUTPUT_FILE), { recursive: true });
+  fs.writeFileSync(OUTPUT_FILE, `${JSON.stringify(schema, null, 2)}\n`);
+  console.log(
+    `Wrote the schema of ${Object.keys(events).length} events to ${OUTPUT_FILE}.`
+  );
+})();
+
+/**
+ * Creates a converter from TypeScript types to JSON schemas. Named interfaces and
+ * enums are added to `definitions` and referenced.
+ */
+function createConverter(
+  checker: ts.TypeChecker,
+  definitions: Record<string, JsonSchema>
+): (type: ts.Type) => JsonSchema {
+  const toSchema = (type: ts.Type): JsonSchema => {
+    const flags = type.getFlags();
+
+    if (flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) {
+      return {};
+    }
+    if (flags & ts.TypeFlags.String) {
+      return { type: "string" };
+    }
+    if (flags & ts.TypeFlags.Number) {
+      return { type: "number" };
+    }
+    if (flags & ts.TypeFlags.Boolean) {
+      return { type: "boolean" };
+    }
+    if (flags & ts.TypeFlags.Null) {
+      return { type: "null" };
+    }
+    if (type.isStringLiteral() || type.isNumberLiteral()) {
+      return { const: type.value };
+    }
+    if (flags & ts.TypeFlags.BooleanLiteral) {
+      return { const: checker.typeToString(type) === "true" };
+    }
+
+    const symbol = type.getSymbol() || type.aliasSymbol;
+
+    if (flags & ts.TypeFlags.EnumLiteral && type.isUnion() && symbol) {
+      const name = symbol.getName();
+      definitions[name] ??= {
+        enum: type.types.map((member) => (member as ts.LiteralType).value),
+      };
+      return { $ref: `#/definitions/${name}` };
+    }
+
+    if (type.isUnion()) {
+      const members = type.types.filter(
+        (member) => !(member.getFlags() & ts.TypeFlags.Undefined)
+      );
+
+      // `boolean` is the union `true | false`
+      if (
+        members.every(
+          (member) => member.getFlags() & ts.TypeFlags.BooleanLiteral
+        )
+      ) {
+        return { type: "boolean" };
+      }
+      if (members.length === 1) {
+        return toSchema(members[0]);
+      }
+
+      // An optional enum is the union of its members and `undefined`
+      const bases = new Set(
+        members.map((member) => checker.getBaseTypeOfLiteralType(member))
+      );
+      if (
+        members.every(
+          (member) => member.getFlags() & ts.TypeFlags.EnumLiteral
+        ) &&
+        bases.size === 1
+      ) {
+        return toSchema([...bases][0]);
+      }
+      if (members.every((member) => member.isLiteral())) {
+        return {
+          enum: members.map((member) => (member as ts.LiteralType).value),
+        };
+      }
+      return { anyOf: members.map(toSchema) };
+    }
+
+    if (checker.isArrayType(type)) {
+      const [items] = checker.getTypeArguments(type as ts.TypeReference);
+      return { type: "array", items: toSchema(items) };
+    }
+
+    if (flags & ts.TypeFlags.Object) {
+      const named =
+        symbol && symbol.getFlags() & ts.SymbolFlags.Interface
+          ? symbol.getName()
+          : null;
+
+      if (named && definitions[named]) {
+        return { $ref: `#/definitions/${named}` };
+      }
+      if (named) {
+        // Reserve the name first so recursive types terminate
+        definitions[named] = {};
+        definitions[named] = toObjectSchema(type);
+        return { $ref: `#/definitions/${named}` };
+      }
+      return toObjectSchema(type);
+    }
+
+    return {};
+  };
+
+  const toObjectSchema = (type: ts.Type): JsonSchema => {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+
+    for (const property of checker.getPropertiesOfType(type)) {
+      const declaration =
+        property.valueDeclaration || property.declarations?.[0];
+      if (!declaration) {
+        continue;
+      }
+
+      const schema = toSchema(
+        checker.getTypeOfSymbolAtLocation(property, declaration)
+      );
+      const description = getTrailingComment(declaration);
+      properties[property.getName()] = description
+        ? { ...schema, description }
+        : schema;
+
+      if (!(property.getFlags() & ts.SymbolFlags.Optional)) {
+        required.push(property.getName());
+      }
+    }
+
+    return { type: "object", properties, required };
+  };
+
+  return toSchema;
+}
+
+// Properties are documented with a trailing `// ...` comment
+function getTrailingComment(declaration: ts.Declaration): string | undefined {
+  const text = declaration.getSourceFile().getFullText();
+  const [range] = ts.getTrailingCommentRanges(text, declaration.getEnd()) || [];
+
+  if (!range || range.kind !== ts.SyntaxKind.SingleLineCommentTrivia) {
+    return undefined;
+  }
+  return text.slice(range.pos + 2, range.end).trim();
+}
@@ -0,0 +1,20 @@
+import pool from "../db";
+import UserStatsService from "../services/UserStatsService";
+
+/**
+ * Backfills missing session results and rebuilds every user's lifetime stats.
+ * Usage: npm run recompute:user-stats
+ */
+(async () => {
+  const userStatsService = new UserStatsService(pool);
+
+  try {
+    const backfilled = await userStatsService.recomputeFromHistory();
+    console.log(`Done. Backfilled ${backfilled} sessions.`);
+  } catch (error) {
+    console.error("Error recomputing user stats:", error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+})();
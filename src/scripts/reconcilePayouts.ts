@@ -0,0 +1,55 @@
+import pool from "../db";
+import apiClient from "../lib/apiClient";
+import PayoutService from "../services/PayoutService";
+import { InMemoryPublisher } from "../realtime/InMemoryPublisher";
+import { AGENT_ID } from "../lib/agent";
+
+/**
+ * Lists failed and stuck payouts.
+ * Usage: npm run reconcile:payouts [-- --requeue]
+ * With --requeue, every listed payout is put back into the retry queue.
+ */
+(async () => {
+  const requeue = process.argv.includes("--requeue");
+  // Requeued payouts are airdropped (and notified) by the running service
+  const payoutService = new PayoutService(
+    pool,
+    apiClient,
+    new InMemoryPublisher(),
+    AGENT_ID
+  );
+
+  try {
+    const payouts = await payoutService.getUnsettledPayouts();
+
+    if (payouts.length === 0) {
+      console.log("No failed or stuck payouts.");
+    } else {
+      console.table(
+        payouts.map((payout) => ({
+          id: payout.id,
+          session: payout.session_id,
+          lobby: payout.lobby_id,
+          wallet: payout.wallet_address,
+          amount: payout.amount,
+          status: payout.status,
+          attempts: payout.attempts,
+          lastError: payout.last_error,
+          updatedAt: payout.updated_at,
+        }))
+      );
+    }
+
+    if (requeue) {
+      for (const payout of payouts) {
+        await payoutService.requeuePayout(payout.id);
+      }
+      console.log(`Requeued ${payouts.length} payouts.`);
+    }
+  } catch (error) {
+    console.error("Error reconciling payouts:", error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+})();
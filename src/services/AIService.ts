@@ -1,14 +1,15 @@
-import ApiClient from "../utils/ApiClient";
-import { AIResponse, RoundDecision } from "../types";
-import Pusher from "pusher";
+import ApiClient, { ApiResponse, describeApiError } from "../utils/ApiClient";
+import { AIResponse, LobbyData, RoundDecision } from "../types";
+import { RealtimePublisher } from "../realtime/RealtimePublisher";
+import { publishEvent } from "../realtime/RealtimeEvents";
 
 export default class AIService {
   private apiClient: ApiClient;
-  private pusher: Pusher;
+  private publisher: RealtimePublisher;
 
-  constructor(baseUrl: string, pusher: Pusher) {
-    this.apiClient = new ApiClient(baseUrl);
-    this.pusher = pusher;
+  constructor(apiClient: ApiClient, publisher: RealtimePublisher) {
+    this.apiClient = apiClient;
+    this.publisher = publisher;
   }
 
   /**
@@ -16,37 +17,125 @@ export default class AIService {
    * @param sessionId - The ID of the session.
    * @param lobbies - The list of lobbies with their forum messages.
    * @returns The AI's response for each lobby.
+   * @throws If the request fails (callers log the failure).
    */
   async getRoundDecision(
     decisionData: RoundDecision
   ): Promise<{ lobby_id: number; decision: AIResponse }[]> {
-    try {
-      const response = await this.apiClient.post<{
-        lobbies: { lobby_id: number; decision: AIResponse }[];
-      }>("/decision", {
-        session_id: decisionData.sessionId,
-        lobbies: decisionData.lobbies,
+    const response = await this.apiClient.post<{
+      lobbies: { lobby_id: number; decision: AIResponse }[];
+    }>("/decision", {
+      agent_id: decisionData.agentId,
+      session_id: decisionData.sessionId,
+      round_number: decisionData.roundNumber,
+      max_rounds: decisionData.maxRounds,
+      round_start_time: decisionData.roundStartTime,
+      lobbies: decisionData.lobbies,
+    });
+
+    if (response.error) {
+      throw new Error(`AI API error: ${describeApiError(response.error)}`);
+    }
+
+    const decisions = response.data?.lobbies || [];
+
+    // Notify each lobby of their AI decision
+    for (const { lobby_id, decision } of decisions) {
+      await publishEvent(this.publisher, "round-decision", {
+        lobbyId: lobby_id,
+        decision,
       });
+    }
 
-      if (response.error) {
-        throw new Error(`AI API error: ${response.error}`);
-      }
+    return decisions;
+  }
 
-      const decisions = response.data?.lobbies || [];
+  /**
+   * Fetches the elimination decisions of a round for every lobby in one batch request.
+   * Lobbies the batch call fails for, or leaves out, fall back to per-lobby requests.
+   * @param decisionData - The round and the lobbies with their forum messages.
+   * @returns The AI response of each lobby, keyed by lobby ID.
+   */
+  async getEliminationDecisions(
+    decisionData: RoundDecision
+  ): Promise<Map<number, ApiResponse<AIResponse>>> {
+    const responses = new Map<number, ApiResponse<AIResponse>>();
+    const requestedLobbyIds = new Set(
+      decisionData.lobbies.map((lobby) => lobby.lobby_id)
+    );
 
-      // Notify each lobby of their AI decision
+    if (decisionData.lobbies.length === 0) {
+      return responses;
+    }
+
+    try {
+      const decisions = await this.getRoundDecision(decisionData);
+
+      // Match decisions back to lobbies, ignoring lobbies we didn't ask about
       for (const { lobby_id, decision } of decisions) {
-        await this.pusher.trigger(
-          `lobby-${lobby_id}`,
-          "round-decision",
-          decision
+        if (requestedLobbyIds.has(lobby_id)) {
+          responses.set(lobby_id, { data: decision });
+        } else {
+          console.warn(`AI returned a decision for unknown lobby ${lobby_id}.`);
+        }
+      }
+    } catch (error) {
+      console.warn(
+        "Batch AI decision failed, falling back to per-lobby requests:",
+        error instanceof Error ? error.message : error
+      );
+    }
+
+    const missingLobbies = decisionData.lobbies.filter(
+      (lobby) => !responses.has(lobby.lobby_id)
+    );
+
+    await Promise.all(
+      missingLobbies.map(async (lobby) => {
+        responses.set(
+          lobby.lobby_id,
+          await this.decideLobbyEliminations(decisionData, lobby)
         );
+      })
+    );
+
+    return responses;
+  }
+
+  /**
+   * Sends a single lobby's elimination request to the AI, with the same lobby data
+   * the batch request carries.
+   * @param decisionData - The round the decision is for.
+   * @param lobby - The lobby with its forum messages.
+   * @returns The AI's response for the lobby.
+   */
+  async decideLobbyEliminations(
+    decisionData: RoundDecision,
+    lobby: LobbyData
+  ): Promise<ApiResponse<AIResponse>> {
+    const response = await this.apiClient.post<AIResponse>(
+      "/decideEliminations",
+      {
+        agentId: decisionData.agentId,
+        sessionId: decisionData.sessionId,
+        lobbyId: lobby.lobby_id,
+        maxRounds: decisionData.maxRounds,
+        currentRound: decisionData.roundNumber,
+        roundStartTime: decisionData.roundStartTime,
+        forumMessages: lobby.forum_messages,
+        remainingPlayers: lobby.remaining_players,
+        activity: lobby.activity,
+        isDev: false,
       }
+    );
 
-      return decisions;
-    } catch (error) {
-      console.error("Error fetching AI decision:", error);
-      throw error;
+    if (response.error) {
+      console.error(
+        `AI elimination request failed for lobby ${lobby.lobby_id}:`,
+        describeApiError(response.error)
+      );
     }
+
+    return response;
   }
 }
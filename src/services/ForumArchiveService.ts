@@ -0,0 +1,158 @@
+import { Pool } from "pg";
+import ForumService from "./ForumService";
+import RoundService from "./RoundService";
+import {
+  buildLobbyTranscript,
+  renderTranscriptMarkdown,
+} from "../forum/ForumTranscript";
+import {
+  ArchivedForumMessage,
+  LobbyTranscript,
+  TRANSCRIPT_FORMAT,
+} from "../types";
+
+export default class ForumArchiveService {
+  private db: Pool;
+  private forumService: ForumService;
+  private roundService: RoundService;
+
+  constructor(db: Pool, forumService: ForumService, roundService: RoundService) {
+    this.db = db;
+    this.forumService = forumService;
+    this.roundService = roundService;
+  }
+
+  /**
+   * Copies the forum of every lobby of a session from Redis to Postgres, tagging each
+   * message with the round it was posted in. Already archived messages are skipped,
+   * so this is safe to call again.
+   * @param sessionId - The session ID.
+   * @returns The number of newly archived messages.
+   */
+  async archiveSession(sessionId: number): Promise<number> {
+    const lobbyIds = await this.getSessionLobbyIds(sessionId);
+    let archived = 0;
+
+    for (const lobbyId of lobbyIds) {
+      const messages = await this.forumService.getAllMessages(lobbyId);
+      if (messages.length === 0) {
+        continue;
+      }
+
+      const result = await this.db.query(
+        `INSERT INTO forum_messages (session_id, lobby_id, round_number, wallet_address, content, posted_at, archived_at)
+         SELECT $1, $2,
+                (SELECT r.round_number FROM rounds r
+                 WHERE r.session_id = $1 AND r.start_time <= m.posted_at
+                 ORDER BY r.start_time DESC
+                 LIMIT 1),
+                m.wallet_address, m.content, m.posted_at, (NOW() AT TIME ZONE 'UTC')
+         FROM jsonb_to_recordset($3::jsonb) AS m(wallet_address TEXT, content TEXT, posted_at TIMESTAMP)
+         ON CONFLICT (session_id, lobby_id, wallet_address, posted_at) DO NOTHING`,
+        [
+          sessionId,
+          lobbyId,
+          JSON.stringify(
+            messages.map((message) => ({
+              wallet_address: message.userPublicKey,
+              content: message.content,
+              posted_at: message.timestamp,
+            }))
+          ),
+        ]
+      );
+      archived += result.rowCount ?? 0;
+    }
+
+    console.log(
+      `Archived ${archived} forum messages of ${lobbyIds.length} lobbies for session ${sessionId}.`
+    );
+    return archived;
+  }
+
+  /**
+   * Retrieves the archived messages of a session, oldest first.
+   * @param sessionId - The session ID.
+   * @param lobbyId - Restricts the messages to one lobby (optional).
+   * @returns The archived messages.
+   */
+  async getArchivedMessages(
+    sessionId: number,
+    lobbyId?: number
+  ): Promise<ArchivedForumMessage[]> {
+    const result = await this.db.query<ArchivedForumMessage>(
+      `SELECT * FROM forum_messages
+       WHERE session_id = $1 AND ($2::int IS NULL OR lobby_id = $2)
+       ORDER BY lobby_id ASC, posted_at ASC, id ASC`,
+      [sessionId, lobbyId ?? null]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Builds the transcripts of a session's lobbies from the archive and the round results.
+   * @param sessionId - The session ID.
+   * @param lobbyId - Restricts the transcripts to one lobby (optional).
+   * @returns One transcript per lobby.
+   */
+  async getTranscripts(
+    sessionId: number,
+    lobbyId?: number
+  ): Promise<LobbyTranscript[]> {
+    const [messages, rounds, results] = await Promise.all([
+      this.getArchivedMessages(sessionId, lobbyId),
+      this.roundService.getRoundsBySession(sessionId),
+      this.roundService.getLobbyResultsBySession(sessionId),
+    ]);
+
+    const lobbyIds =
+      lobbyId !== undefined
+        ? [lobbyId]
+        : [
+            ...new Set([
+              ...(await this.getSessionLobbyIds(sessionId)),
+              ...messages.map((message) => message.lobby_id),
+            ]),
+          ].sort((a, b) => a - b);
+
+    return lobbyIds.map((id) =>
+      buildLobbyTranscript(
+        sessionId,
+        id,
+        messages.filter((message) => message.lobby_id === id),
+        rounds,
+        results.filter((result) => result.lobby_id === id)
+      )
+    );
+  }
+
+  /**
+   * Exports the transcripts of a session or one of its lobbies.
+   * @param sessionId - The session ID.
+   * @param format - JSON or Markdown.
+   * @param lobbyId - Restricts the export to one lobby (optional).
+   * @returns The transcript document.
+   */
+  async exportTranscript(
+    sessionId: number,
+    format: TRANSCRIPT_FORMAT,
+    lobbyId?: number
+  ): Promise<string> {
+    const transcripts = await this.getTranscripts(sessionId, lobbyId);
+
+    if (format === TRANSCRIPT_FORMAT.MARKDOWN) {
+      return renderTranscriptMarkdown(transcripts);
+    }
+    return JSON.stringify(transcripts, null, 2);
+  }
+
+  private async getSessionLobbyIds(sessionId: number): Promise<number[]> {
+    const result = await this.db.query<{ lobby_id: number }>(
+      `SELECT DISTINCT lobby_id FROM players
+       WHERE session_id = $1 AND lobby_id IS NOT NULL
+       ORDER BY lobby_id ASC`,
+      [sessionId]
+    );
+    return result.rows.map((row) => row.lobby_id);
+  }
+}
@@ -1,15 +1,130 @@
-import Pusher from "pusher";
+import { RealtimePublisher } from "../realtime/RealtimePublisher";
+import { publishEvent } from "../realtime/RealtimeEvents";
 import { RedisService } from "../redis/RedisService";
-import { ForumMessage } from "../types";
+import LobbyService from "./LobbyService";
+import PhaseService from "./PhaseService";
+import PresenceService from "./PresenceService";
+import ActionRejectedError from "../utils/ActionRejectedError";
+import {
+  createModerationFilter,
+  ModerationFilter,
+} from "../forum/ForumModeration";
+import {
+  ForumMessage,
+  ForumOptions,
+  LobbyStatus,
+  PHASE_ACTION,
+  PRESENCE_ACTIVITY,
+} from "../types";
+
+const DEFAULT_FORUM_OPTIONS: ForumOptions = {
+  maxMessageLength: 500,
+  rateLimitMessages: 5,
+  rateLimitWindowMs: 10 * 1000,
+};
 
 export default class ForumService {
   private redisService: RedisService;
-  private pusher: Pusher;
+  private lobbyService: LobbyService;
+  private phaseService: PhaseService;
+  private presenceService: PresenceService;
+  private publisher: RealtimePublisher;
+  private moderation: ModerationFilter;
+  private options: ForumOptions;
   private forumKeyPrefix = "forum"; // Key prefix for forum messages
 
-  constructor(redisService: RedisService, pusher: Pusher) {
+  constructor(
+    redisService: RedisService,
+    lobbyService: LobbyService,
+    phaseService: PhaseService,
+    presenceService: PresenceService,
+    publisher: RealtimePublisher,
+    moderation: ModerationFilter = createModerationFilter(),
+    options: Partial<ForumOptions> = {}
+  ) {
     this.redisService = redisService;
-    this.pusher = pusher;
+    this.lobbyService = lobbyService;
+    this.phaseService = phaseService;
+    this.presenceService = presenceService;
+    this.publisher = publisher;
+    this.moderation = moderation;
+    this.options = { ...DEFAULT_FORUM_OPTIONS, ...options };
+  }
+
+  /**
+   * Posts a player's message to their lobby's forum after moderation.
+   * @param sessionId - The session ID.
+   * @param lobbyId - The lobby ID.
+   * @param walletAddress - The author's wallet address.
+   * @param content - The message content.
+   * @returns The stored message.
+   * @throws ActionRejectedError if the author is not an active player of the lobby, the
+   * forum is locked in the current phase, the author is posting too fast, or the message
+   * is empty, too long or rejected by moderation.
+   */
+  async postMessage(
+    sessionId: number,
+    lobbyId: number,
+    walletAddress: string,
+    content: string
+  ): Promise<ForumMessage> {
+    const lobby = await this.lobbyService.getLobby(sessionId, lobbyId);
+    if (lobby?.status !== LobbyStatus.ACTIVE) {
+      throw new ActionRejectedError(`Lobby ${lobbyId} is not active.`);
+    }
+
+    // Only active players may post, and only during the discussion phase
+    const player = lobby.players.find(
+      (player) => player.wallet_address === walletAddress
+    );
+    await this.phaseService.assertPermission(
+      sessionId,
+      PHASE_ACTION.POST,
+      player?.status
+    );
+
+    // Rejected attempts count too, so moderation can't be probed at full speed
+    await this.checkRateLimit(lobbyId, walletAddress);
+
+    const moderated = this.moderation.moderate(
+      typeof content === "string" ? content.trim() : ""
+    );
+    if (moderated.rejected) {
+      throw new ActionRejectedError(moderated.rejected);
+    }
+    if (moderated.content.length === 0) {
+      throw new ActionRejectedError("Message is empty.");
+    }
+    if (moderated.content.length > this.options.maxMessageLength) {
+      throw new ActionRejectedError(
+        `Message exceeds ${this.options.maxMessageLength} characters.`
+      );
+    }
+
+    const message: ForumMessage = {
+      userPublicKey: walletAddress,
+      content: moderated.content,
+      timestamp: new Date().toISOString(),
+    };
+
+    await this.redisService.lpush(
+      this.getForumKey(lobbyId),
+      JSON.stringify(message)
+    );
+    await this.presenceService.recordActivity(
+      sessionId,
+      lobbyId,
+      walletAddress,
+      PRESENCE_ACTIVITY.MESSAGE
+    );
+
+    // Notify via the realtime publisher
+    await publishEvent(this.publisher, "forum-message", {
+      lobbyId,
+      ...message,
+    });
+
+    return message;
   }
 
   /**
@@ -23,7 +138,28 @@ export default class ForumService {
 
     // Fetch messages from the Redis list
     const rawMessages = await this.redisService.lrange(forumKey, 0, limit - 1);
-    return rawMessages.map((msg) => JSON.parse(msg) as ForumMessage);
+    // The Redis client may already have deserialized the JSON entries
+    return rawMessages.map((msg: string | ForumMessage) =>
+      typeof msg === "string" ? (JSON.parse(msg) as ForumMessage) : msg
+    );
+  }
+
+  /**
+   * Retrieves every message of a lobby, oldest first.
+   * @param lobbyId - The lobby ID.
+   * @returns List of forum messages.
+   */
+  async getAllMessages(lobbyId: number): Promise<ForumMessage[]> {
+    const rawMessages = await this.redisService.lrange(
+      this.getForumKey(lobbyId),
+      0,
+      -1
+    );
+    return rawMessages
+      .map((msg: string | ForumMessage) =>
+        typeof msg === "string" ? (JSON.parse(msg) as ForumMessage) : msg
+      )
+      .reverse();
   }
 
   /**
@@ -34,8 +170,8 @@ export default class ForumService {
     const forumKey = this.getForumKey(lobbyId);
     await this.redisService.del(forumKey);
 
-    // Notify via Pusher
-    await this.pusher.trigger(`lobby-${lobbyId}`, "forum-clear", {
+    // Notify via the realtime publisher
+    await publishEvent(this.publisher, "forum-clear", {
       lobbyId,
       message: "All forum messages have been cleared.",
     });
@@ -43,6 +179,28 @@ export default class ForumService {
     console.log(`Cleared messages for lobby ${lobbyId}`);
   }
 
+  /**
+   * Counts a wallet's message in the current fixed window of its lobby.
+   * @throws If the wallet exceeded its messages for the window.
+   */
+  private async checkRateLimit(
+    lobbyId: number,
+    walletAddress: string
+  ): Promise<void> {
+    const rateKey = this.getRateLimitKey(lobbyId, walletAddress);
+    const count = await this.redisService.incr(rateKey);
+
+    if (count === 1) {
+      await this.redisService.pexpire(rateKey, this.options.rateLimitWindowMs);
+    }
+
+    if (count > this.options.rateLimitMessages) {
+      throw new ActionRejectedError(
+        `Wallet ${walletAddress} is posting too fast in lobby ${lobbyId}.`
+      );
+    }
+  }
+
   /**
    * Generates a Redis key for forum messages of a lobby.
    * @param lobbyId - The lobby ID.
@@ -51,4 +209,14 @@ export default class ForumService {
   private getForumKey(lobbyId: number): string {
     return `${this.forumKeyPrefix}:lobby:${lobbyId}:messages`;
   }
+
+  /**
+   * Generates the Redis key counting a wallet's messages in a lobby's rate limit window.
+   * @param lobbyId - The lobby ID.
+   * @param walletAddress - The wallet address.
+   * @returns The Redis key.
+   */
+  private getRateLimitKey(lobbyId: number, walletAddress: string): string {
+    return `${this.forumKeyPrefix}:lobby:${lobbyId}:ratelimit:${walletAddress}`;
+  }
 }
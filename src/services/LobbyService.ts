@@ -1,43 +1,16 @@
 import { RedisService } from "../redis/RedisService";
-import Pusher from "pusher";
+import { RealtimePublisher } from "../realtime/RealtimePublisher";
+import { publishEvent } from "../realtime/RealtimeEvents";
 import { Player, Lobby, LobbyStatus, PLAYER_STATUS } from "../types";
 
 export default class LobbyService {
   private redisService: RedisService;
-  private pusher: Pusher;
+  private publisher: RealtimePublisher;
   private lobbyKeyPrefix = "lobby"; // Key prefix for lobbies
 
-  constructor(redisService: RedisService, pusher: Pusher) {
+  constructor(redisService: RedisService, publisher: RealtimePublisher) {
     this.redisService = redisService;
-    this.pusher = pusher;
-  }
-
-  /**
-   * Retrieves the voting results for a specific lobby and round.
-   * @param sessionId - The session ID.
-   * @param lobbyId - The lobby ID.
-   * @param roundId - The round ID.
-   * @returns An object summarizing the voting results.
-   */
-  async getVotingResults(
-    sessionId: number,
-    lobbyId: number,
-    roundId: number
-  ): Promise<{ [key: string]: number }> {
-    const votingKey = `lobby:${lobbyId}:votes`;
-
-    // Fetch all votes stored under the key
-    const shareVotes = await this.redisService.hget(votingKey, "share");
-    const continueVotes = await this.redisService.hget(votingKey, "continue");
-
-    // Count votes
-    const results = {
-      share: parseInt(shareVotes || "0", 10),
-      continue: parseInt(continueVotes || "0", 10),
-    };
-
-    console.log(`Voting results for ${votingKey}:`, results);
-    return results;
+    this.publisher = publisher;
   }
 
   /**
@@ -180,7 +153,7 @@ export default class LobbyService {
   }
 
   /**
-   * Publishes a real-time lobby update via Pusher.
+   * Publishes a real-time lobby update via the realtime publisher.
    * @param sessionId - The session ID.
    * @param lobbyId - The lobby ID.
    * @param message - The update message.
@@ -190,9 +163,12 @@ export default class LobbyService {
     lobbyId: number,
     message: string
   ): Promise<void> {
-    const channel = `lobby-${sessionId}-${lobbyId}`;
-    await this.pusher.trigger(channel, "lobby-update", { message });
-    console.log(`Published lobby update to Pusher channel: ${channel}`);
+    await publishEvent(this.publisher, "lobby-update", {
+      sessionId,
+      lobbyId,
+      message,
+    });
+    console.log(`Published update of lobby ${lobbyId} (session ${sessionId}).`);
   }
 
   /**
@@ -0,0 +1,327 @@
+import { Pool } from "pg";
+import ApiClient, { describeApiError } from "../utils/ApiClient";
+import { RealtimePublisher } from "../realtime/RealtimePublisher";
+import { publishEvent } from "../realtime/RealtimeEvents";
+import { Payout, PAYOUT_STATUS, PrizeAllocation } from "../types";
+
+export interface PayoutRetryOptions {
+  maxAttempts?: number; // Attempts before a payout is marked as failed
+  baseDelayMs?: number; // Backoff delay after the first failed attempt
+  maxDelayMs?: number; // Upper bound for the backoff delay
+}
+
+// How long a payout may stay in processing before it counts as stuck
+const DEFAULT_STUCK_AFTER_MS = 10 * 60 * 1000;
+
+export default class PayoutService {
+  private db: Pool;
+  private apiClient: ApiClient;
+  private publisher: RealtimePublisher;
+  private agentId: string;
+  private maxAttempts: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private retryTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    db: Pool,
+    apiClient: ApiClient,
+    publisher: RealtimePublisher,
+    agentId: string,
+    options: PayoutRetryOptions = {}
+  ) {
+    this.db = db;
+    this.apiClient = apiClient;
+    this.publisher = publisher;
+    this.agentId = agentId;
+    this.maxAttempts = options.maxAttempts ?? 8;
+    this.baseDelayMs = options.baseDelayMs ?? 30 * 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 60 * 60 * 1000;
+  }
+
+  /**
+   * Records one pending payout per recipient. Re-recording the same recipient is a no-op.
+   * @param sessionId - The session ID.
+   * @param lobbyId - The lobby ID.
+   * @param allocations - Recipients with their amounts in token base units.
+   * @returns The payouts of the given recipients, including previously recorded ones.
+   */
+  async createPayouts(
+    sessionId: number,
+    lobbyId: number,
+    allocations: PrizeAllocation[]
+  ): Promise<Payout[]> {
+    const payouts: Payout[] = [];
+
+    for (const { wallet_address: walletAddress, amount } of allocations) {
+      const idempotencyKey = this.getIdempotencyKey(
+        sessionId,
+        lobbyId,
+        walletAddress
+      );
+
+      await this.db.query(
+        `INSERT INTO payouts (session_id, lobby_id, wallet_address, amount, idempotency_key, status, next_attempt_at, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6, (NOW() AT TIME ZONE 'UTC'), (NOW() AT TIME ZONE 'UTC'), (NOW() AT TIME ZONE 'UTC'))
+         ON CONFLICT (idempotency_key) DO NOTHING`,
+        [
+          sessionId,
+          lobbyId,
+          walletAddress,
+          amount.toString(),
+          idempotencyKey,
+          PAYOUT_STATUS.PENDING,
+        ]
+      );
+
+      const result = await this.db.query<Payout>(
+        `SELECT * FROM payouts WHERE idempotency_key = $1`,
+        [idempotencyKey]
+      );
+      payouts.push(result.rows[0]);
+    }
+
+    console.log(
+      `Recorded ${payouts.length} payouts for lobby ${lobbyId} of session ${sessionId}.`
+    );
+    return payouts;
+  }
+
+  /**
+   * Attempts the airdrop for a payout if it is due, updating the ledger with the outcome.
+   * @param payoutId - The payout ID.
+   * @returns The updated payout, or null if it was not due or already being processed.
+   */
+  async processPayout(payoutId: number): Promise<Payout | null> {
+    // Claim the payout so concurrent loops never airdrop it twice
+    const claimResult = await this.db.query<Payout>(
+      `UPDATE payouts
+       SET status = $2, attempts = attempts + 1, updated_at = (NOW() AT TIME ZONE 'UTC')
+       WHERE id = $1 AND status = $3 AND next_attempt_at <= (NOW() AT TIME ZONE 'UTC')
+       RETURNING *`,
+      [payoutId, PAYOUT_STATUS.PROCESSING, PAYOUT_STATUS.PENDING]
+    );
+
+    const payout = claimResult.rows[0];
+    if (!payout) {
+      return null;
+    }
+
+    // The idempotency key makes the airdrop safe to retry
+    const response = await this.apiClient.post(
+      "/airdrop",
+      {
+        agentId: this.agentId,
+        winners: [payout.wallet_address],
+        amount: payout.amount, // Base units as a decimal string, exact beyond 2^53
+        idempotencyKey: payout.idempotency_key,
+      },
+      {
+        idempotent: true,
+        headers: { "Idempotency-Key": payout.idempotency_key },
+      }
+    );
+
+    if (!response.error) {
+      const result = await this.db.query<Payout>(
+        `UPDATE payouts
+         SET status = $2, last_error = NULL, completed_at = (NOW() AT TIME ZONE 'UTC'), updated_at = (NOW() AT TIME ZONE 'UTC')
+         WHERE id = $1
+         RETURNING *`,
+        [payout.id, PAYOUT_STATUS.COMPLETED]
+      );
+      console.log(
+        `Airdropped ${payout.amount} to ${payout.wallet_address} (payout ${payout.id}).`
+      );
+
+      // The airdrop went through whether or not the winner hears about it
+      await publishEvent(this.publisher, "payout-confirmed", {
+        wallet: payout.wallet_address,
+        payoutId: payout.id,
+        sessionId: payout.session_id,
+        lobbyId: payout.lobby_id,
+        amount: payout.amount,
+      }).catch((err) =>
+        console.error(`Failed to notify payout ${payout.id}:`, err)
+      );
+      return result.rows[0];
+    }
+
+    // The airdrop was never sent: wait for the circuit to probe again without using an attempt
+    if (response.error?.type === "circuit_open") {
+      const result = await this.db.query<Payout>(
+        `UPDATE payouts
+         SET status = $2, attempts = attempts - 1, last_error = $3,
+             next_attempt_at = COALESCE($4::timestamp, (NOW() AT TIME ZONE 'UTC') + $5 * INTERVAL '1 millisecond'),
+             updated_at = (NOW() AT TIME ZONE 'UTC')
+         WHERE id = $1
+         RETURNING *`,
+        [
+          payout.id,
+          PAYOUT_STATUS.PENDING,
+          describeApiError(response.error),
+          response.error.retryAt,
+          this.getBackoffDelay(1),
+        ]
+      );
+
+      console.warn(
+        `Deferred airdrop to ${payout.wallet_address} (payout ${payout.id}): ${describeApiError(response.error)}`
+      );
+      return result.rows[0];
+    }
+
+    const exhausted = payout.attempts >= this.maxAttempts;
+    const result = await this.db.query<Payout>(
+      `UPDATE payouts
+       SET status = $2, last_error = $3,
+           next_attempt_at = (NOW() AT TIME ZONE 'UTC') + $4 * INTERVAL '1 millisecond',
+           updated_at = (NOW() AT TIME ZONE 'UTC')
+       WHERE id = $1
+       RETURNING *`,
+      [
+        payout.id,
+        exhausted ? PAYOUT_STATUS.FAILED : PAYOUT_STATUS.PENDING,
+        describeApiError(response.error),
+        this.getBackoffDelay(payout.attempts),
+      ]
+    );
+
+    console.error(
+      `Failed to airdrop to ${payout.wallet_address} (payout ${payout.id}, attempt ${payout.attempts}):`,
+      describeApiError(response.error)
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Processes every pending payout whose next attempt is due.
+   * @returns The number of payouts that were attempted.
+   */
+  async processDuePayouts(): Promise<number> {
+    const result = await this.db.query<{ id: number }>(
+      `SELECT id FROM payouts
+       WHERE status = $1 AND next_attempt_at <= (NOW() AT TIME ZONE 'UTC')
+       ORDER BY next_attempt_at ASC`,
+      [PAYOUT_STATUS.PENDING]
+    );
+
+    let attempted = 0;
+    for (const { id } of result.rows) {
+      if (await this.processPayout(id)) {
+        attempted++;
+      }
+    }
+    return attempted;
+  }
+
+  /**
+   * Starts the background loop that retries due payouts.
+   * @param intervalMs - Delay between two passes over the ledger.
+   */
+  startRetryLoop(intervalMs = 15 * 1000): void {
+    if (this.retryTimer) {
+      return;
+    }
+
+    const tick = async () => {
+      try {
+        const attempted = await this.processDuePayouts();
+        if (attempted > 0) {
+          console.log(`Payout retry loop attempted ${attempted} payouts.`);
+        }
+      } catch (err) {
+        console.error("Payout retry loop error:", err);
+      } finally {
+        this.retryTimer = setTimeout(tick, intervalMs);
+      }
+    };
+
+    this.retryTimer = setTimeout(tick, intervalMs);
+    console.log("Payout retry loop started.");
+  }
+
+  stopRetryLoop(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  /**
+   * Lists payouts that need attention: failed ones and ones stuck in processing.
+   * @param stuckAfterMs - How long a payout may stay in processing before it counts as stuck.
+   * @returns The failed and stuck payouts, oldest first.
+   */
+  async getUnsettledPayouts(
+    stuckAfterMs = DEFAULT_STUCK_AFTER_MS
+  ): Promise<Payout[]> {
+    const result = await this.db.query<Payout>(
+      `SELECT * FROM payouts
+       WHERE status = $1
+          OR (status = $2 AND updated_at <= (NOW() AT TIME ZONE 'UTC') - $3 * INTERVAL '1 millisecond')
+       ORDER BY created_at ASC`,
+      [PAYOUT_STATUS.FAILED, PAYOUT_STATUS.PROCESSING, stuckAfterMs]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Retrieves a payout by ID.
+   * @param payoutId - The payout ID.
+   * @returns The payout, or null if it doesn't exist.
+   */
+  async getPayout(payoutId: number): Promise<Payout | null> {
+    const result = await this.db.query<Payout>(
+      `SELECT * FROM payouts WHERE id = $1`,
+      [payoutId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Puts a failed or stuck payout back into the retry queue. Payouts still within
+   * their processing window are left alone, as their airdrop may be in flight.
+   * @param payoutId - The payout ID.
+   * @param stuckAfterMs - How long a payout may stay in processing before it counts as stuck.
+   * @returns The requeued payout, or null if it was settled or is still processing.
+   */
+  async requeuePayout(
+    payoutId: number,
+    stuckAfterMs = DEFAULT_STUCK_AFTER_MS
+  ): Promise<Payout | null> {
+    const result = await this.db.query<Payout>(
+      `UPDATE payouts
+       SET status = $2, attempts = 0, next_attempt_at = (NOW() AT TIME ZONE 'UTC'), updated_at = (NOW() AT TIME ZONE 'UTC')
+       WHERE id = $1
+         AND (status = $3
+           OR (status = $4 AND updated_at <= (NOW() AT TIME ZONE 'UTC') - $5 * INTERVAL '1 millisecond'))
+       RETURNING *`,
+      [
+        payoutId,
+        PAYOUT_STATUS.PENDING,
+        PAYOUT_STATUS.FAILED,
+        PAYOUT_STATUS.PROCESSING,
+        stuckAfterMs,
+      ]
+    );
+    return result.rows[0] || null;
+  }
+
+  private getIdempotencyKey(
+    sessionId: number,
+    lobbyId: number,
+    walletAddress: string
+  ): string {
+    return `airdrop:session:${sessionId}:lobby:${lobbyId}:wallet:${walletAddress}`;
+  }
+
+  // Exponential backoff with jitter, capped at maxDelayMs
+  private getBackoffDelay(attempts: number): number {
+    const delay = Math.min(
+      this.baseDelayMs * Math.pow(2, Math.max(0, attempts - 1)),
+      this.maxDelayMs
+    );
+    return Math.floor(delay / 2 + Math.random() * (delay / 2));
+  }
+}
@@ -0,0 +1,119 @@
+import { RealtimePublisher } from "../realtime/RealtimePublisher";
+import { publishEvent } from "../realtime/RealtimeEvents";
+import { RedisService } from "../redis/RedisService";
+import { checkPermission, getPhaseForEvent } from "../phase/PhasePermissions";
+import ActionRejectedError from "../utils/ActionRejectedError";
+import {
+  PermissionDecision,
+  PhaseState,
+  PHASE_ACTION,
+  PLAYER_STATUS,
+  SessionEvent,
+  SessionEventType,
+} from "../types";
+
+export default class PhaseService {
+  private redisService: RedisService;
+  private publisher: RealtimePublisher;
+  private sessionKeyPrefix = "session"; // Key prefix for session state
+
+  constructor(redisService: RedisService, publisher: RealtimePublisher) {
+    this.redisService = redisService;
+    this.publisher = publisher;
+  }
+
+  /**
+   * Records the event the worker is processing as the session's current one and
+   * tells clients when this changes the phase, so they can lock or unlock their UI.
+   * @param sessionId - The session ID.
+   * @param event - The event.
+   */
+  async enterEvent(sessionId: number, event: SessionEvent): Promise<void> {
+    const previous = await this.getPhaseState(sessionId);
+    const roundNumber = event.round?.round_number ?? null;
+
+    await this.redisService.set(this.getCurrentEventKey(sessionId), event.type);
+    await this.redisService.set(
+      this.getCurrentRoundKey(sessionId),
+      JSON.stringify(roundNumber)
+    );
+
+    const phase = getPhaseForEvent(event.type);
+    if (phase === previous.phase && roundNumber === previous.round_number) {
+      return;
+    }
+
+    console.log(
+      `Session ${sessionId} entered the ${phase} phase${roundNumber !== null ? ` of round ${roundNumber}` : ""}.`
+    );
+
+    // Notify via the realtime publisher
+    await publishEvent(this.publisher, "phase-changed", {
+      sessionId,
+      phase,
+      previousPhase: previous.phase,
+      roundNumber,
+      event: event.type,
+    });
+  }
+
+  /**
+   * Reads a session's current phase from the last event the worker processed.
+   * @param sessionId - The session ID.
+   * @returns The phase state.
+   */
+  async getPhaseState(sessionId: number): Promise<PhaseState> {
+    const [event, roundNumber] = await Promise.all([
+      this.redisService.get(this.getCurrentEventKey(sessionId)),
+      this.redisService.get(this.getCurrentRoundKey(sessionId)),
+    ]);
+
+    return {
+      phase: getPhaseForEvent((event as SessionEventType | null) || null),
+      event: (event as SessionEventType | null) || null,
+      round_number:
+        roundNumber === null || roundNumber === undefined
+          ? null
+          : Number(roundNumber),
+    };
+  }
+
+  /**
+   * Decides whether a player may take an action in the session's current phase.
+   * @param sessionId - The session ID.
+   * @param action - The action.
+   * @param playerStatus - The player's status (undefined if they aren't in the lobby).
+   * @returns The decision with the reason of a refusal.
+   */
+  async checkPermission(
+    sessionId: number,
+    action: PHASE_ACTION,
+    playerStatus?: PLAYER_STATUS
+  ): Promise<PermissionDecision> {
+    const { phase } = await this.getPhaseState(sessionId);
+    return checkPermission(action, phase, playerStatus);
+  }
+
+  /**
+   * Same as `checkPermission`, but throws an `ActionRejectedError` on a refusal.
+   * @throws If the action isn't allowed.
+   */
+  async assertPermission(
+    sessionId: number,
+    action: PHASE_ACTION,
+    playerStatus?: PLAYER_STATUS
+  ): Promise<void> {
+    const decision = await this.checkPermission(sessionId, action, playerStatus);
+    if (!decision.allowed) {
+      throw new ActionRejectedError(decision.reason);
+    }
+  }
+
+  private getCurrentEventKey(sessionId: number): string {
+    return `${this.sessionKeyPrefix}:${sessionId}:currentEvent`;
+  }
+
+  private getCurrentRoundKey(sessionId: number): string {
+    return `${this.sessionKeyPrefix}:${sessionId}:currentRound`;
+  }
+}
@@ -1,17 +1,31 @@
 import { Pool } from "pg";
 import { RedisService } from "../redis/RedisService";
-import { Lobby, LobbyStatus, Player, PLAYER_STATUS } from "../types";
-import Pusher from "pusher";
+import {
+  Lobby,
+  LobbyStatus,
+  Player,
+  PlayerTransitions,
+  PLAYER_STATUS,
+  Session,
+} from "../types";
+import { RealtimePublisher } from "../realtime/RealtimePublisher";
+import { publishEvent } from "../realtime/RealtimeEvents";
+import {
+  DEFAULT_LOBBY_DISTRIBUTION,
+  distributeIntoLobbies,
+  generateSeed,
+  seededShuffle,
+} from "../distribution/LobbyDistribution";
 
 export default class PlayerService {
   private db: Pool;
   private redis: RedisService;
-  private pusher: Pusher;
+  private publisher: RealtimePublisher;
 
-  constructor(db: Pool, redis: RedisService, pusher: Pusher) {
+  constructor(db: Pool, redis: RedisService, publisher: RealtimePublisher) {
     this.db = db;
     this.redis = redis;
-    this.pusher = pusher;
+    this.publisher = publisher;
   }
 
   /**
@@ -94,15 +108,106 @@ export default class PlayerService {
   }
 
   /**
-   * Randomly distributes players into lobbies.
+   * Persists the status transitions of a lobby's players for a round in one transaction.
    * @param sessionId - The session ID.
-   * @param maxPlayersPerLobby - The maximum number of players per lobby.
+   * @param roundNumber - The round the transitions happened in.
+   * @param transitions - Eliminated, surviving and winning wallets.
+   */
+  async recordPlayerTransitions(
+    sessionId: number,
+    roundNumber: number,
+    transitions: PlayerTransitions
+  ): Promise<void> {
+    const { eliminated = [], survivors = [], winners = [] } = transitions;
+
+    const client = await this.db.connect();
+    try {
+      await client.query("BEGIN");
+
+      if (eliminated.length > 0) {
+        await client.query(
+          `UPDATE players
+           SET status = $3, eliminated_at = (NOW() AT TIME ZONE 'UTC'),
+               elimination_round = $4, total_rounds_played = $4
+           WHERE session_id = $1 AND wallet_address = ANY($2::text[])`,
+          [sessionId, eliminated, PLAYER_STATUS.ELIMINATED, roundNumber]
+        );
+      }
+
+      if (survivors.length > 0) {
+        await client.query(
+          `UPDATE players
+           SET total_rounds_played = GREATEST(total_rounds_played, $3)
+           WHERE session_id = $1 AND wallet_address = ANY($2::text[])`,
+          [sessionId, survivors, roundNumber]
+        );
+      }
+
+      if (winners.length > 0) {
+        await client.query(
+          `UPDATE players
+           SET status = $3, total_rounds_played = GREATEST(total_rounds_played, $4)
+           WHERE session_id = $1 AND wallet_address = ANY($2::text[])`,
+          [sessionId, winners, PLAYER_STATUS.WINNER, roundNumber]
+        );
+      }
+
+      await client.query("COMMIT");
+      console.log(
+        `Recorded round ${roundNumber} player transitions for session ${sessionId}: ${eliminated.length} eliminated, ${survivors.length} surviving, ${winners.length} winners.`
+      );
+    } catch (error) {
+      await client.query("ROLLBACK");
+      console.error("Error recording player transitions:", error);
+      throw new Error("Failed to record player transitions.");
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Checks whether a wallet was assigned to a lobby, whatever its status since.
+   * @param lobbyId - The lobby ID (unique across sessions).
+   * @param walletAddress - The wallet address.
+   * @returns True if the wallet is a member of the lobby.
+   */
+  async isLobbyMember(lobbyId: number, walletAddress: string): Promise<boolean> {
+    const result = await this.db.query(
+      `SELECT 1 FROM players
+       WHERE lobby_id = $1 AND wallet_address = $2
+       LIMIT 1`,
+      [lobbyId, walletAddress]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Checks whether a session's players were already put in lobbies.
+   * @param sessionId - The session ID.
+   * @returns True if at least one player has a lobby.
+   */
+  async hasLobbyAssignments(sessionId: number): Promise<boolean> {
+    const result = await this.db.query(
+      `SELECT 1 FROM players
+       WHERE session_id = $1 AND lobby_id IS NOT NULL
+       LIMIT 1`,
+      [sessionId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Distributes players into lobbies with a seeded shuffle.
+   * The seed is stored on the session so the distribution can be audited and reproduced.
+   * @param session - The session (its `max_total_players` caps each lobby).
    * @returns An array of lobby assignments.
    */
   async distributePlayersToLobbies(
-    sessionId: number,
-    maxPlayersPerLobby: number
+    session: Session
   ): Promise<{ lobbyId: number; players: Player[] }[]> {
+    const sessionId = session.id;
+    const maxPlayersPerLobby = session.max_total_players;
+
     // Fetch all players
     const players = await this.getPlayers(sessionId);
 
@@ -111,42 +216,32 @@ export default class PlayerService {
       return [];
     }
 
-    // Shuffle the players
-    const shuffledPlayers = players.sort(() => Math.random() - 0.5);
-
-    // Calculate number of lobbies needed
-    const totalPlayers = shuffledPlayers.length;
+    // Sort first so the shuffle only depends on the seed, not on Redis set order
+    const seed = await this.getOrCreateLobbySeed(session);
+    const shuffledPlayers = seededShuffle(
+      [...players].sort((a, b) =>
+        a.wallet_address.localeCompare(b.wallet_address)
+      ),
+      seed
+    );
 
-    // If total players is less than or equal to maxPlayersPerLobby, create just one lobby
-    let numLobbies = Math.floor(totalPlayers / maxPlayersPerLobby);
-    if (numLobbies === 0 || totalPlayers % maxPlayersPerLobby !== 0) {
-      numLobbies = Math.max(1, numLobbies);
-    }
+    const { lobbies: lobbyAssignments, waitlist } = distributeIntoLobbies(
+      shuffledPlayers,
+      maxPlayersPerLobby,
+      session.lobby_distribution || DEFAULT_LOBBY_DISTRIBUTION
+    );
 
-    // Calculate minimum players per lobby to ensure even distribution
-    const minPlayersPerLobby = Math.floor(totalPlayers / numLobbies);
-    const extraPlayers = totalPlayers - minPlayersPerLobby * numLobbies;
+    console.log(
+      `Distributing ${players.length} players of session ${sessionId} into ${lobbyAssignments.length} lobbies (seed ${seed}).`
+    );
 
     // Divide players into lobbies
     const lobbies = [];
-    let lobbyId = 1;
-    let playerIndex = 0;
 
-    for (let i = 0; i < numLobbies; i++) {
+    for (const lobbyPlayers of lobbyAssignments) {
+      const lobbyId = await this.nextLobbyId();
       const lobbyKey = `lobby:session:${sessionId}:lobby:${lobbyId}`;
 
-      // Add extra players to the last lobby
-      const playersInThisLobby =
-        i === numLobbies - 1
-          ? minPlayersPerLobby + extraPlayers
-          : minPlayersPerLobby;
-
-      const lobbyPlayers = shuffledPlayers.slice(
-        playerIndex,
-        playerIndex + playersInThisLobby
-      );
-      playerIndex += playersInThisLobby;
-
       // Set each player's status as ACTIVE in Redis
       for (const player of lobbyPlayers) {
         const playerKey = `lobby:${lobbyId}:player:${player.wallet_address}`;
@@ -172,6 +267,18 @@ export default class PlayerService {
       await this.redis.set(lobbyKey, JSON.stringify(lobby));
       console.log(`Stored lobby in Redis: ${lobbyKey}`);
 
+      // Persist the lobby assignment
+      await this.db.query(
+        `UPDATE players SET lobby_id = $1, status = $4
+         WHERE session_id = $2 AND wallet_address = ANY($3::text[])`,
+        [
+          lobbyId,
+          sessionId,
+          lobbyPlayers.map((p) => p.wallet_address),
+          PLAYER_STATUS.ACTIVE,
+        ]
+      );
+
       // Create a lobby entry
       lobbies.push({ lobbyId, players: lobbyPlayers });
 
@@ -179,16 +286,70 @@ export default class PlayerService {
       const sessionLobbiesKey = `lobby:session:${sessionId}:lobbies`;
       await this.redis.sadd(sessionLobbiesKey, [lobbyKey]);
 
-      // Notify via Pusher
-      await this.pusher.trigger("lobby", "lobby-created", {
+      // Notify via the realtime publisher
+      await publishEvent(this.publisher, "lobby-created", {
         sessionId,
         lobbyId,
-        players: lobbyPlayers,
+        players: lobbyPlayers.map((player) => player.wallet_address),
       });
+    }
+
+    if (waitlist.length > 0) {
+      // Mark them on their rows so results and stats can leave them out
+      await this.db.query(
+        `UPDATE players SET lobby_id = NULL, status = $3
+         WHERE session_id = $1 AND wallet_address = ANY($2::text[])`,
+        [
+          sessionId,
+          waitlist.map((player) => player.wallet_address),
+          PLAYER_STATUS.WAITLISTED,
+        ]
+      );
 
-      lobbyId++;
+      const waitlistKey = `session:${sessionId}:waitlist`;
+      await this.redis.sadd(
+        waitlistKey,
+        waitlist.map((player) => player.wallet_address)
+      );
+      console.log(
+        `Waitlisted ${waitlist.length} players of session ${sessionId}.`
+      );
+
+      // Notify via the realtime publisher
+      await publishEvent(this.publisher, "lobby-waitlist", {
+        sessionId,
+        players: waitlist.map((player) => player.wallet_address),
+      });
     }
 
     return lobbies;
   }
+
+  /**
+   * Returns the session's lobby seed, generating and storing one if it has none.
+   * @param session - The session.
+   * @returns The seed.
+   */
+  private async getOrCreateLobbySeed(session: Session): Promise<string> {
+    // COALESCE keeps an existing seed, so replays after a restart reuse it
+    const result = await this.db.query<{ lobby_seed: string }>(
+      `UPDATE sessions
+       SET lobby_seed = COALESCE(lobby_seed, $2)
+       WHERE id = $1
+       RETURNING lobby_seed`,
+      [session.id, session.lobby_seed || generateSeed()]
+    );
+    return result.rows[0]?.lobby_seed || session.lobby_seed || generateSeed();
+  }
+
+  /**
+   * Allocates a lobby ID that is unique across all sessions.
+   * @returns The new lobby ID.
+   */
+  private async nextLobbyId(): Promise<number> {
+    const result = await this.db.query<{ id: string }>(
+      `SELECT nextval('lobby_id_seq') AS id`
+    );
+    return parseInt(result.rows[0].id, 10);
+  }
 }
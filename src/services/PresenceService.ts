@@ -0,0 +1,134 @@
+import { RedisService } from "../redis/RedisService";
+import PhaseService from "./PhaseService";
+import { PlayerActivity, PresenceOptions, PRESENCE_ACTIVITY } from "../types";
+
+export default class PresenceService {
+  private redisService: RedisService;
+  private phaseService: PhaseService;
+  private options: PresenceOptions;
+  private lobbyKeyPrefix = "lobby"; // Key prefix, so lobby cleanup removes presence too
+
+  constructor(
+    redisService: RedisService,
+    phaseService: PhaseService,
+    options: Partial<PresenceOptions> = {}
+  ) {
+    this.redisService = redisService;
+    this.phaseService = phaseService;
+    this.options = { heartbeatTimeoutMs: 30 * 1000, ...options };
+  }
+
+  /**
+   * Records that a wallet is connected to a lobby. The time since its previous
+   * heartbeat counts as online time of the current round, unless the wallet had
+   * timed out in between.
+   * @param sessionId - The session ID.
+   * @param lobbyId - The lobby ID.
+   * @param walletAddress - The wallet address.
+   */
+  async heartbeat(
+    sessionId: number,
+    lobbyId: number,
+    walletAddress: string
+  ): Promise<void> {
+    const now = Date.now();
+    const lastSeenKey = this.getLastSeenKey(lobbyId);
+    const lastSeen = Number(
+      await this.redisService.hget(lastSeenKey, walletAddress)
+    );
+
+    await this.redisService.hset(lastSeenKey, walletAddress, String(now));
+
+    const elapsed = now - lastSeen;
+    if (!lastSeen || elapsed <= 0 || elapsed > this.options.heartbeatTimeoutMs) {
+      return;
+    }
+
+    const { round_number: roundNumber } =
+      await this.phaseService.getPhaseState(sessionId);
+    if (roundNumber === null) {
+      return;
+    }
+
+    await this.redisService.hincrby(
+      this.getRoundKey(lobbyId, roundNumber),
+      `${walletAddress}:online_ms`,
+      elapsed
+    );
+  }
+
+  /**
+   * Counts an action of a wallet in the current round. Acting also counts as a heartbeat.
+   * @param sessionId - The session ID.
+   * @param lobbyId - The lobby ID.
+   * @param walletAddress - The wallet address.
+   * @param activity - The action.
+   */
+  async recordActivity(
+    sessionId: number,
+    lobbyId: number,
+    walletAddress: string,
+    activity: PRESENCE_ACTIVITY
+  ): Promise<void> {
+    await this.heartbeat(sessionId, lobbyId, walletAddress);
+
+    const { round_number: roundNumber } =
+      await this.phaseService.getPhaseState(sessionId);
+    if (roundNumber === null) {
+      return;
+    }
+
+    await this.redisService.hincrby(
+      this.getRoundKey(lobbyId, roundNumber),
+      `${walletAddress}:${activity}`,
+      1
+    );
+  }
+
+  /**
+   * Reads the activity of a lobby's players during a round.
+   * @param lobbyId - The lobby ID.
+   * @param roundNumber - The round number.
+   * @param walletAddresses - The players to report on.
+   * @returns One entry per wallet, in the given order.
+   */
+  async getRoundActivity(
+    lobbyId: number,
+    roundNumber: number,
+    walletAddresses: string[]
+  ): Promise<PlayerActivity[]> {
+    const [lastSeen, counters] = await Promise.all([
+      this.redisService.hgetall(this.getLastSeenKey(lobbyId)),
+      this.redisService.hgetall(this.getRoundKey(lobbyId, roundNumber)),
+    ]);
+    const now = Date.now();
+    const counter = (walletAddress: string, field: string) =>
+      Number(counters?.[`${walletAddress}:${field}`] ?? 0);
+
+    return walletAddresses.map((walletAddress) => {
+      const lastSeenAt = Number(lastSeen?.[walletAddress] ?? 0);
+      const online =
+        lastSeenAt > 0 && now - lastSeenAt <= this.options.heartbeatTimeoutMs;
+      const messages = counter(walletAddress, PRESENCE_ACTIVITY.MESSAGE);
+      const votesCast = counter(walletAddress, PRESENCE_ACTIVITY.VOTE);
+
+      return {
+        wallet_address: walletAddress,
+        online,
+        last_seen_at: lastSeenAt > 0 ? new Date(lastSeenAt).toISOString() : null,
+        online_ms: counter(walletAddress, "online_ms"),
+        messages,
+        votes_cast: votesCast,
+        afk: !online && messages === 0 && votesCast === 0,
+      };
+    });
+  }
+
+  private getLastSeenKey(lobbyId: number): string {
+    return `${this.lobbyKeyPrefix}:${lobbyId}:presence:lastSeen`;
+  }
+
+  private getRoundKey(lobbyId: number, roundNumber: number): string {
+    return `${this.lobbyKeyPrefix}:${lobbyId}:presence:round:${roundNumber}`;
+  }
+}
@@ -1,61 +1,79 @@
-import { Pool } from "pg";
-import { Round } from "../types";
-import Pusher from "pusher";
+import { Pool, PoolClient } from "pg";
+import {
+  EliminationDecision,
+  Round,
+  RoundLobbyResult,
+  RoundLobbyResultUpdate,
+  Session,
+} from "../types";
+import { RealtimePublisher } from "../realtime/RealtimePublisher";
+import { publishEvent } from "../realtime/RealtimeEvents";
+import { buildRoundTimeline } from "../round/RoundTimeline";
 
 export default class RoundService {
   private db: Pool;
-  private pusher: Pusher;
+  private publisher: RealtimePublisher;
 
-  constructor(db: Pool, pusher: Pusher) {
+  constructor(db: Pool, publisher: RealtimePublisher) {
     this.db = db;
-    this.pusher = pusher;
+    this.publisher = publisher;
   }
 
   /**
-   * Creates rounds for a given session.
-   * @param sessionId - The ID of the session for which to create rounds.
-   * @param totalRounds - The total number of rounds to create.
-   * @param startTime - The start time of the first round.
-   * @param endTime - The end time of the session.
+   * Creates the rounds of a session with every phase timestamp populated.
+   * @param session - The session (its window, round count and timeline config).
+   * @param client - Client to insert with, e.g. inside the session's transaction.
+   * @returns The created rounds.
+   * @throws If the rounds don't fit in the session window.
    */
   async createRounds(
-    sessionId: number,
-    totalRounds: number,
-    startTime: string,
-    endTime: string
+    session: Pick<
+      Session,
+      "id" | "start_time" | "end_time" | "total_rounds" | "round_timeline"
+    >,
+    client: Pool | PoolClient = this.db
   ): Promise<Round[]> {
-    const roundDuration =
-      (new Date(endTime).getTime() - new Date(startTime).getTime()) /
-      totalRounds;
-
     const rounds: Round[] = [];
-    for (let i = 0; i < totalRounds; i++) {
-      const roundStartTime = new Date(
-        new Date(startTime).getTime() + i * roundDuration
-      ).toISOString();
-      const roundEndTime = new Date(
-        new Date(startTime).getTime() + (i + 1) * roundDuration
-      ).toISOString();
-
-      const result = await this.db.query<Round>(
-        `INSERT INTO rounds (session_id, round_number, start_time, end_time)
-         VALUES ($1, $2, $3, $4) RETURNING *`,
-        [sessionId, i + 1, roundStartTime, roundEndTime]
+
+    for (const schedule of buildRoundTimeline(session)) {
+      const result = await client.query<Round>(
+        `INSERT INTO rounds (session_id, round_number, ai_message_start, ai_message_end, start_time, end_time, elimination_start, elimination_end, voting_start_time, voting_end_time, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, (NOW() AT TIME ZONE 'UTC'))
+         RETURNING *`,
+        [
+          session.id,
+          schedule.round_number,
+          schedule.ai_message_start,
+          schedule.ai_message_end,
+          schedule.start_time,
+          schedule.end_time,
+          schedule.elimination_start,
+          schedule.elimination_end,
+          schedule.voting_start_time,
+          schedule.voting_end_time,
+        ]
       );
+      rounds.push(result.rows[0]);
+    }
 
-      const round = result.rows[0];
-      rounds.push(round);
+    console.log(`Created ${rounds.length} rounds for session ID ${session.id}.`);
+    return rounds;
+  }
 
-      // Notify via Pusher
-      await this.pusher.trigger(`session-${sessionId}`, "round-created", {
+  /**
+   * Announces a session's rounds once they are committed.
+   * @param sessionId - The session ID.
+   * @param rounds - The rounds.
+   */
+  async publishRoundsCreated(sessionId: number, rounds: Round[]): Promise<void> {
+    for (const round of rounds) {
+      await publishEvent(this.publisher, "round-created", {
+        sessionId,
         roundNumber: round.round_number,
         startTime: round.start_time,
         endTime: round.end_time,
       });
     }
-
-    console.log(`Created ${rounds.length} rounds for session ID ${sessionId}.`);
-    return rounds;
   }
 
   /**
@@ -82,10 +100,11 @@ export default class RoundService {
       roundId,
     ]);
 
-    // Notify via Pusher
+    // Notify via the realtime publisher
     const round = await this.getRoundById(roundId);
     if (round) {
-      await this.pusher.trigger(`session-${round.session_id}`, "ai-decision", {
+      await publishEvent(this.publisher, "ai-decision", {
+        sessionId: round.session_id,
         roundId,
         aiDecision,
       });
@@ -119,4 +138,102 @@ export default class RoundService {
     ]);
     console.log(`Deleted all rounds for session ID ${sessionId}.`);
   }
+
+  /**
+   * Creates or updates the result record of a lobby for a round.
+   * Fields left out of the update keep their stored value.
+   * @param round - The round.
+   * @param lobbyId - The lobby ID.
+   * @param update - The fields to record.
+   */
+  async recordLobbyResult(
+    round: Round,
+    lobbyId: number,
+    update: RoundLobbyResultUpdate
+  ): Promise<void> {
+    const toJson = (value: unknown) =>
+      value === undefined ? null : JSON.stringify(value);
+
+    await this.db.query(
+      `INSERT INTO round_lobby_results (session_id, round_id, round_number, lobby_id, ai_response, eliminated_players, elimination_comment, continue_votes, share_votes, outcome, remaining_players, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, (NOW() AT TIME ZONE 'UTC'), (NOW() AT TIME ZONE 'UTC'))
+       ON CONFLICT (round_id, lobby_id) DO UPDATE
+       SET ai_response = COALESCE(EXCLUDED.ai_response, round_lobby_results.ai_response),
+           eliminated_players = COALESCE(EXCLUDED.eliminated_players, round_lobby_results.eliminated_players),
+           elimination_comment = COALESCE(EXCLUDED.elimination_comment, round_lobby_results.elimination_comment),
+           continue_votes = COALESCE(EXCLUDED.continue_votes, round_lobby_results.continue_votes),
+           share_votes = COALESCE(EXCLUDED.share_votes, round_lobby_results.share_votes),
+           outcome = COALESCE(EXCLUDED.outcome, round_lobby_results.outcome),
+           remaining_players = COALESCE(EXCLUDED.remaining_players, round_lobby_results.remaining_players),
+           updated_at = EXCLUDED.updated_at`,
+      [
+        round.session_id,
+        round.id,
+        round.round_number,
+        lobbyId,
+        toJson(update.ai_response),
+        toJson(update.eliminated_players),
+        toJson(update.elimination_comment),
+        update.continue_votes ?? null,
+        update.share_votes ?? null,
+        update.outcome ?? null,
+        toJson(update.remaining_players),
+      ]
+    );
+
+    console.log(
+      `Recorded round ${round.round_number} result for lobby ${lobbyId}.`
+    );
+  }
+
+  /**
+   * Retrieves the per-lobby results of a session, ordered by round and lobby.
+   * @param sessionId - The session ID.
+   * @returns The round results.
+   */
+  async getLobbyResultsBySession(
+    sessionId: number
+  ): Promise<RoundLobbyResult[]> {
+    const result = await this.db.query<RoundLobbyResult>(
+      `SELECT * FROM round_lobby_results
+       WHERE session_id = $1
+       ORDER BY round_number ASC, lobby_id ASC`,
+      [sessionId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Records an AI elimination response that validation rejected or corrected.
+   * @param round - The round.
+   * @param lobbyId - The lobby ID.
+   * @param rawResponse - The response as returned by the AI.
+   * @param decision - The validated decision.
+   */
+  async recordEliminationAudit(
+    round: Round,
+    lobbyId: number,
+    rawResponse: unknown,
+    decision: EliminationDecision
+  ): Promise<void> {
+    await this.db.query(
+      `INSERT INTO elimination_audits (session_id, round_id, round_number, lobby_id, raw_response, accepted, rejected, issues, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, (NOW() AT TIME ZONE 'UTC'))`,
+      [
+        round.session_id,
+        round.id,
+        round.round_number,
+        lobbyId,
+        JSON.stringify(rawResponse ?? null),
+        JSON.stringify(decision.eliminations),
+        JSON.stringify(decision.rejected),
+        JSON.stringify(decision.issues),
+      ]
+    );
+
+    console.warn(
+      `AI elimination response for lobby ${lobbyId}, round ${round.round_number} was corrected: ${decision.rejected.length} entries rejected.`,
+      decision.issues
+    );
+  }
 }
@@ -0,0 +1,231 @@
+import { RealtimePublisher } from "../realtime/RealtimePublisher";
+import { publishEvent } from "../realtime/RealtimeEvents";
+import { SessionScheduler } from "../core/SessionScheduler";
+import SessionService from "./SessionService";
+import SessionProgressService from "./SessionProgressService";
+import SessionCleanupService from "./SessionCleanupService";
+import LobbyService from "./LobbyService";
+import PhaseService from "./PhaseService";
+import PayoutService from "./PayoutService";
+import {
+  CreateSessionRequest,
+  LobbyOverview,
+  Payout,
+  Session,
+  SessionEvent,
+  SessionOverview,
+} from "../types";
+
+/**
+ * Thrown when an admin operation doesn't apply to the session or payout's current state.
+ */
+export class SessionStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SessionStateError";
+  }
+}
+
+/**
+ * Session lifecycle operations of the admin API. Methods return null when the
+ * session or payout doesn't exist, and throw a `SessionStateError` when the
+ * operation doesn't apply to its current state.
+ */
+export default class SessionAdminService {
+  private sessionService: SessionService;
+  private sessionProgressService: SessionProgressService;
+  private sessionCleanupService: SessionCleanupService;
+  private lobbyService: LobbyService;
+  private phaseService: PhaseService;
+  private payoutService: PayoutService;
+  private scheduler: SessionScheduler;
+  private publisher: RealtimePublisher;
+
+  constructor(
+    sessionService: SessionService,
+    sessionProgressService: SessionProgressService,
+    sessionCleanupService: SessionCleanupService,
+    lobbyService: LobbyService,
+    phaseService: PhaseService,
+    payoutService: PayoutService,
+    scheduler: SessionScheduler,
+    publisher: RealtimePublisher
+  ) {
+    this.sessionService = sessionService;
+    this.sessionProgressService = sessionProgressService;
+    this.sessionCleanupService = sessionCleanupService;
+    this.lobbyService = lobbyService;
+    this.phaseService = phaseService;
+    this.payoutService = payoutService;
+    this.scheduler = scheduler;
+    this.publisher = publisher;
+  }
+
+  /**
+   * Creates a session and lets the scheduler pick it up.
+   * @param request - The validated creation request.
+   * @returns The created session with its rounds.
+   */
+  async createSession(request: CreateSessionRequest): Promise<Session> {
+    const session = await this.sessionService.createSession(request);
+    this.scheduler.notifySessionsChanged();
+    return session;
+  }
+
+  /**
+   * Lists every session, oldest start first.
+   */
+  async listSessions(): Promise<Session[]> {
+    return this.sessionService.getAllSessions();
+  }
+
+  /**
+   * Describes a session with its rounds, players and progress.
+   * @param sessionId - The session ID.
+   */
+  async getSessionOverview(sessionId: number): Promise<SessionOverview | null> {
+    const session = await this.sessionService.getSessionById(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    const [progress, phase] = await Promise.all([
+      this.sessionProgressService.getProgress(sessionId),
+      this.phaseService.getPhaseState(sessionId),
+    ]);
+
+    return {
+      session,
+      running: this.scheduler.isRunning(sessionId),
+      progress,
+      phase,
+    };
+  }
+
+  /**
+   * Cancels a session: stops it if it is running and deletes its Redis state.
+   * Payouts already recorded are left to the retry loop.
+   * @param sessionId - The session ID.
+   * @throws If the session already ended or was cancelled.
+   */
+  async cancelSession(sessionId: number): Promise<Session | null> {
+    if (!(await this.sessionService.getSessionById(sessionId))) {
+      return null;
+    }
+
+    // Mark it first so the scheduler can't relaunch it once stopped
+    const session = await this.sessionService.cancelSession(sessionId);
+    if (!session) {
+      throw new SessionStateError(`Session ${sessionId} already ended.`);
+    }
+
+    await this.scheduler.stopSession(sessionId);
+    await this.sessionCleanupService.cleanupSession(sessionId);
+
+    await publishEvent(this.publisher, "session-cancelled", {
+      sessionId,
+      cancelledAt: session.cancelled_at || new Date().toISOString(),
+    });
+
+    return session;
+  }
+
+  /**
+   * Moves a session that hasn't started to a new start time.
+   * @param sessionId - The session ID.
+   * @param startTime - The new start time (ISO 8601 string).
+   * @throws If the session was cancelled, has started or is about to.
+   */
+  async rescheduleSession(
+    sessionId: number,
+    startTime: string
+  ): Promise<Session | null> {
+    const session = await this.sessionService.getSessionById(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    if (session.cancelled_at) {
+      throw new SessionStateError(`Session ${sessionId} was cancelled.`);
+    }
+    if (
+      this.scheduler.isRunning(sessionId) ||
+      (await this.sessionProgressService.getProgress(sessionId)) ||
+      new Date(session.start_time).getTime() <= Date.now()
+    ) {
+      throw new SessionStateError(`Session ${sessionId} has already started.`);
+    }
+
+    const rescheduled = await this.sessionService.rescheduleSession(
+      sessionId,
+      startTime
+    );
+    if (!rescheduled) {
+      return null;
+    }
+
+    this.scheduler.notifySessionsChanged();
+    await publishEvent(this.publisher, "session-rescheduled", {
+      sessionId,
+      name: rescheduled.name,
+      startTime: rescheduled.start_time,
+      endTime: rescheduled.end_time,
+    });
+
+    return rescheduled;
+  }
+
+  /**
+   * Processes a running session's next event now.
+   * @param sessionId - The session ID.
+   * @returns The event brought forward.
+   * @throws If the session isn't running or is busy processing an event.
+   */
+  async advancePhase(sessionId: number): Promise<SessionEvent | null> {
+    if (!(await this.sessionService.getSessionById(sessionId))) {
+      return null;
+    }
+
+    const event = this.scheduler.advanceSession(sessionId);
+    if (!event) {
+      throw new SessionStateError(`Session ${sessionId} is not waiting for an event.`);
+    }
+    return event;
+  }
+
+  /**
+   * Describes the lobbies of a session and its current phase.
+   * @param sessionId - The session ID.
+   */
+  async getLobbyOverview(sessionId: number): Promise<LobbyOverview | null> {
+    if (!(await this.sessionService.getSessionById(sessionId))) {
+      return null;
+    }
+
+    const [phase, lobbies] = await Promise.all([
+      this.phaseService.getPhaseState(sessionId),
+      this.lobbyService.getAllLobbies(sessionId),
+    ]);
+    return { phase, lobbies };
+  }
+
+  /**
+   * Requeues a failed or stuck payout and attempts it right away.
+   * @param payoutId - The payout ID.
+   * @returns The payout after the attempt.
+   * @throws If the payout is not failed or stuck.
+   */
+  async retryPayout(payoutId: number): Promise<Payout | null> {
+    const payout = await this.payoutService.getPayout(payoutId);
+    if (!payout) {
+      return null;
+    }
+
+    const requeued = await this.payoutService.requeuePayout(payoutId);
+    if (!requeued) {
+      throw new SessionStateError(`Payout ${payoutId} is ${payout.status}, not failed or stuck.`);
+    }
+
+    return (await this.payoutService.processPayout(payoutId)) || requeued;
+  }
+}
@@ -0,0 +1,127 @@
+import { Pool } from "pg";
+import { RedisService } from "../redis/RedisService";
+
+export default class SessionCleanupService {
+  private db: Pool;
+  private redis: RedisService;
+  private archiveEnabled: boolean;
+
+  constructor(db: Pool, redis: RedisService, archiveEnabled = false) {
+    this.db = db;
+    this.redis = redis;
+    this.archiveEnabled = archiveEnabled;
+  }
+
+  /**
+   * Deletes every Redis key that belongs to a session, leaving other sessions untouched.
+   * @param sessionId - The session ID.
+   * @param archive - Whether to copy the keys to Postgres before deleting them.
+   * @returns The number of deleted keys.
+   */
+  async cleanupSession(
+    sessionId: number,
+    archive = this.archiveEnabled
+  ): Promise<number> {
+    const keys = await this.getSessionKeys(sessionId);
+
+    if (keys.length === 0) {
+      console.log(`No Redis data to clean up for session ${sessionId}.`);
+      return 0;
+    }
+
+    if (archive) {
+      await this.archiveKeys(sessionId, keys);
+    }
+
+    const deleted = await this.redis.delMany(keys);
+    console.log(`Deleted ${deleted} Redis keys for session ${sessionId}.`);
+    return deleted;
+  }
+
+  /**
+   * Collects the Redis keys owned by a session and its lobbies.
+   * @param sessionId - The session ID.
+   * @returns The unique list of keys.
+   */
+  async getSessionKeys(sessionId: number): Promise<string[]> {
+    const lobbyIds = await this.getLobbyIds(sessionId);
+
+    const patterns = [
+      `session:${sessionId}:*`,
+      `lobby:session:${sessionId}:*`,
+      `voting:session:${sessionId}:*`,
+      ...lobbyIds.flatMap((lobbyId) => [
+        `lobby:${lobbyId}:*`,
+        `elimination:lobby:${lobbyId}`,
+        `forum:lobby:${lobbyId}:*`,
+      ]),
+    ];
+
+    const keys = new Set<string>();
+    for (const pattern of patterns) {
+      for (const key of await this.redis.scanKeys(pattern)) {
+        keys.add(key);
+      }
+    }
+
+    return Array.from(keys);
+  }
+
+  /**
+   * Copies the given keys with their values into the `redis_archives` table.
+   * @param sessionId - The session ID.
+   * @param keys - The Redis keys to archive.
+   */
+  private async archiveKeys(sessionId: number, keys: string[]): Promise<void> {
+    const client = await this.db.connect();
+    try {
+      await client.query("BEGIN");
+
+      for (const key of keys) {
+        const keyType = await this.redis.type(key);
+        const value = await this.readValue(key, keyType);
+
+        await client.query(
+          `INSERT INTO redis_archives (session_id, redis_key, key_type, value, archived_at)
+           VALUES ($1, $2, $3, $4, (NOW() AT TIME ZONE 'UTC'))`,
+          [sessionId, key, keyType, JSON.stringify(value)]
+        );
+      }
+
+      await client.query("COMMIT");
+      console.log(`Archived ${keys.length} Redis keys for session ${sessionId}.`);
+    } catch (error) {
+      await client.query("ROLLBACK");
+      console.error(`Error archiving Redis data for session ${sessionId}:`, error);
+      throw new Error("Failed to archive session data.");
+    } finally {
+      client.release();
+    }
+  }
+
+  private async readValue(key: string, keyType: string): Promise<unknown> {
+    switch (keyType) {
+      case "string":
+        return this.redis.get(key);
+      case "list":
+        return this.redis.lrange(key, 0, -1);
+      case "set":
+        return this.redis.smembers(key);
+      case "hash":
+        return this.redis.hgetall(key);
+      default:
+        return null;
+    }
+  }
+
+  private async getLobbyIds(sessionId: number): Promise<number[]> {
+    const lobbyKeys = await this.redis.smembers(
+      `lobby:session:${sessionId}:lobbies`
+    );
+
+    return lobbyKeys
+      .map((key) => key.match(/:lobby:(\d+)$/))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map((match) => parseInt(match[1], 10));
+  }
+}
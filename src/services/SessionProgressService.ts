@@ -0,0 +1,137 @@
+import { Pool } from "pg";
+import {
+  SessionEvent,
+  SessionEventType,
+  SessionProgress,
+  SESSION_EVENT_ORDER,
+} from "../types";
+
+export default class SessionProgressService {
+  private db: Pool;
+
+  constructor(db: Pool) {
+    this.db = db;
+  }
+
+  /**
+   * Retrieves the stored phase progress of a session.
+   * @param sessionId - The session ID.
+   * @returns The progress record, or null if the session has not started processing.
+   */
+  async getProgress(sessionId: number): Promise<SessionProgress | null> {
+    const result = await this.db.query<SessionProgress>(
+      `SELECT session_id, last_event_type, last_round_number,
+              last_event_time AT TIME ZONE 'UTC' AS last_event_time,
+              updated_at AT TIME ZONE 'UTC' AS updated_at
+       FROM session_progress
+       WHERE session_id = $1`,
+      [sessionId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Records an event as fully processed for a session.
+   * @param sessionId - The session ID.
+   * @param event - The event that was processed.
+   */
+  async recordEvent(sessionId: number, event: SessionEvent): Promise<void> {
+    await this.db.query(
+      `INSERT INTO session_progress (session_id, last_event_type, last_round_number, last_event_time, updated_at)
+       VALUES ($1, $2, $3, $4, (NOW() AT TIME ZONE 'UTC'))
+       ON CONFLICT (session_id) DO UPDATE
+       SET last_event_type = EXCLUDED.last_event_type,
+           last_round_number = EXCLUDED.last_round_number,
+           last_event_time = EXCLUDED.last_event_time,
+           updated_at = EXCLUDED.updated_at`,
+      [
+        sessionId,
+        event.type,
+        event.round?.round_number ?? null,
+        new Date(event.time).toISOString(),
+      ]
+    );
+    console.log(
+      `Recorded progress for session ${sessionId}: ${event.type}${
+        event.round ? ` (round ${event.round.round_number})` : ""
+      }`
+    );
+  }
+
+  /**
+   * Filters a session timeline down to the events that have not been processed yet.
+   * @param events - The session timeline, sorted with `compareEvents`.
+   * @param progress - The stored progress of the session (if any).
+   * @returns The events after the last processed one, in order.
+   */
+  getPendingEvents(
+    events: SessionEvent[],
+    progress: SessionProgress | null
+  ): SessionEvent[] {
+    if (!progress) {
+      return events;
+    }
+
+    const lastProcessed = SessionProgressService.eventKey(
+      progress.last_event_type,
+      new Date(progress.last_event_time).getTime(),
+      progress.last_round_number
+    );
+
+    return events.filter(
+      (event) =>
+        SessionProgressService.compareKeys(
+          SessionProgressService.eventKey(
+            event.type,
+            event.time,
+            event.round?.round_number ?? null
+          ),
+          lastProcessed
+        ) > 0
+    );
+  }
+
+  /**
+   * Orders events by scheduled time, then round number, then phase order.
+   * @param a - The first event.
+   * @param b - The second event.
+   * @returns A negative, zero or positive number, as expected by `Array.sort`.
+   */
+  static compareEvents(a: SessionEvent, b: SessionEvent): number {
+    return SessionProgressService.compareKeys(
+      SessionProgressService.eventKey(
+        a.type,
+        a.time,
+        a.round?.round_number ?? null
+      ),
+      SessionProgressService.eventKey(
+        b.type,
+        b.time,
+        b.round?.round_number ?? null
+      )
+    );
+  }
+
+  private static eventKey(
+    type: SessionEventType,
+    time: number,
+    roundNumber: number | null
+  ): [number, number, number] {
+    // Session start sorts before every round event, session end after them
+    const roundKey =
+      roundNumber ?? (type === "SESSION_END" ? Number.MAX_SAFE_INTEGER : 0);
+    return [time, roundKey, SESSION_EVENT_ORDER.indexOf(type)];
+  }
+
+  private static compareKeys(
+    a: [number, number, number],
+    b: [number, number, number]
+  ): number {
+    for (let i = 0; i < a.length; i++) {
+      if (a[i] !== b[i]) {
+        return a[i] - b[i];
+      }
+    }
+    return 0;
+  }
+}
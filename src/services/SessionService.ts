@@ -1,29 +1,50 @@
 import { Pool } from "pg";
 import { Session, CreateSessionRequest, Round } from "../types";
-import Pusher from "pusher";
+import { RealtimePublisher } from "../realtime/RealtimePublisher";
+import { publishEvent } from "../realtime/RealtimeEvents";
+import { buildRoundTimeline } from "../round/RoundTimeline";
+import RoundService from "./RoundService";
+import TimeUtils from "../utils/TimeUtils";
 
 export default class SessionService {
   private db: Pool;
-  private pusher: Pusher;
-
-  constructor(db: Pool, pusher: Pusher) {
+  private roundService: RoundService;
+  private publisher: RealtimePublisher;
+
+  constructor(
+    db: Pool,
+    roundService: RoundService,
+    publisher: RealtimePublisher
+  ) {
     this.db = db;
-    this.pusher = pusher;
+    this.roundService = roundService;
+    this.publisher = publisher;
   }
 
   /**
    * Creates a new session in the database.
-   * @param sessionData - The session creation request payload.
+   * @param request - The session creation request payload.
    * @returns The created session with rounds.
+   * @throws If the rounds don't fit in the session window, or the insert fails.
    */
-  async createSession(sessionData: CreateSessionRequest): Promise<Session> {
+  async createSession(request: CreateSessionRequest): Promise<Session> {
+    // Fail with the actual reason before touching the database
+    buildRoundTimeline(request);
+
+    // Store the window in UTC, the time zone of the round timestamps
+    const sessionData: CreateSessionRequest = {
+      ...request,
+      start_time: TimeUtils.toUtcISO(request.start_time),
+      end_time: TimeUtils.toUtcISO(request.end_time),
+    };
+
     const client = await this.db.connect();
     try {
       await client.query("BEGIN");
 
       const sessionInsertQuery = `
-        INSERT INTO sessions (name, entry_fee, total_rounds, max_total_players, start_time, end_time, created_at)
-        VALUES ($1, $2, $3, $4, $5, $6, (NOW() AT TIME ZONE 'UTC'))
+        INSERT INTO sessions (name, entry_fee, total_rounds, max_total_players, start_time, end_time, prize_policy, lobby_seed, lobby_distribution, voting_rules, elimination_limits, elimination_strategy, round_timeline, created_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, (NOW() AT TIME ZONE 'UTC'))
         RETURNING *;
       `;
 
@@ -34,52 +55,40 @@ export default class SessionService {
         sessionData.max_total_players,
         sessionData.start_time,
         sessionData.end_time,
+        sessionData.prize_policy ? JSON.stringify(sessionData.prize_policy) : null,
+        sessionData.lobby_seed || null,
+        sessionData.lobby_distribution
+          ? JSON.stringify(sessionData.lobby_distribution)
+          : null,
+        sessionData.voting_rules ? JSON.stringify(sessionData.voting_rules) : null,
+        sessionData.elimination_limits
+          ? JSON.stringify(sessionData.elimination_limits)
+          : null,
+        sessionData.elimination_strategy
+          ? JSON.stringify(sessionData.elimination_strategy)
+          : null,
+        sessionData.round_timeline
+          ? JSON.stringify(sessionData.round_timeline)
+          : null,
       ]);
 
       const session = sessionResult.rows[0];
-
-      const rounds: Round[] = [];
-      const staticIntervals = 2 * 10 * 1000; // AI decision (1 min) + Voting (1 min)
-      const waitingTime = 1 * 10 * 1000; // Waiting before the first round
-      const totalDynamicTime =
-        new Date(session.end_time).getTime() -
-        new Date(session.start_time).getTime() -
-        waitingTime -
-        staticIntervals * session.total_rounds;
-
-      const roundDuration = Math.floor(totalDynamicTime / session.total_rounds);
-
-      for (let i = 0; i < session.total_rounds; i++) {
-        const roundStartTime = new Date(
-          new Date(session.start_time).getTime() + i * roundDuration
-        );
-        const roundEndTime = new Date(roundStartTime.getTime() + roundDuration);
-
-        const roundInsertQuery = `
-          INSERT INTO rounds (session_id, round_number, start_time, end_time, created_at)
-          VALUES ($1, $2, $3, $4, (NOW() AT TIME ZONE 'UTC'))
-          RETURNING *;
-        `;
-
-        const roundResult = await client.query(roundInsertQuery, [
-          session.id,
-          i + 1,
-          roundStartTime.toISOString(),
-          roundEndTime.toISOString(),
-        ]);
-
-        rounds.push(roundResult.rows[0]);
-      }
+      // Lay the rounds out from the normalised ISO times rather than the parsed columns
+      const rounds = await this.roundService.createRounds(
+        { ...sessionData, id: session.id },
+        client
+      );
 
       await client.query("COMMIT");
 
-      // Notify via Pusher
-      await this.pusher.trigger("sessions", "session-created", {
+      // Notify via the realtime publisher
+      await publishEvent(this.publisher, "session-created", {
         sessionId: session.id,
         name: session.name,
         startTime: session.start_time,
         endTime: session.end_time,
       });
+      await this.roundService.publishRoundsCreated(session.id, rounds);
 
       return { ...session, rounds };
     } catch (error) {
@@ -137,6 +146,88 @@ export default class SessionService {
     console.log(`Session with ID ${sessionId} deleted.`);
   }
 
+  /**
+   * Marks a session as cancelled so it is never scheduled again.
+   * @param sessionId - The session ID.
+   * @returns The cancelled session, or null if it doesn't exist or already ended.
+   */
+  async cancelSession(sessionId: number): Promise<Session | null> {
+    const result = await this.db.query<Session>(
+      `UPDATE sessions
+       SET cancelled_at = (NOW() AT TIME ZONE 'UTC'), completed = TRUE
+       WHERE id = $1 AND completed IS NOT TRUE AND cancelled_at IS NULL
+       RETURNING *`,
+      [sessionId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    console.log(`Session with ID ${sessionId} cancelled.`);
+    return result.rows[0];
+  }
+
+  /**
+   * Moves a session and all of its rounds to a new start time, keeping every duration.
+   * @param sessionId - The session ID.
+   * @param startTime - The new start time (ISO 8601 string).
+   * @returns The rescheduled session with its rounds, or null if it doesn't exist.
+   */
+  async rescheduleSession(
+    sessionId: number,
+    startTime: string
+  ): Promise<Session | null> {
+    const start = TimeUtils.toUtcISO(startTime);
+    const client = await this.db.connect();
+    try {
+      await client.query("BEGIN");
+
+      // Shift every phase of every round by the offset before moving the session
+      await client.query(
+        `UPDATE rounds r
+         SET ai_message_start = r.ai_message_start + o.offset_interval,
+             ai_message_end = r.ai_message_end + o.offset_interval,
+             start_time = r.start_time + o.offset_interval,
+             end_time = r.end_time + o.offset_interval,
+             elimination_start = r.elimination_start + o.offset_interval,
+             elimination_end = r.elimination_end + o.offset_interval,
+             voting_start_time = r.voting_start_time + o.offset_interval,
+             voting_end_time = r.voting_end_time + o.offset_interval
+         FROM (SELECT $2::timestamp - start_time AS offset_interval FROM sessions WHERE id = $1) o
+         WHERE r.session_id = $1`,
+        [sessionId, start]
+      );
+
+      const sessionResult = await client.query<Session>(
+        `UPDATE sessions
+         SET end_time = end_time + ($2::timestamp - start_time), start_time = $2::timestamp
+         WHERE id = $1
+         RETURNING *`,
+        [sessionId, start]
+      );
+      if (sessionResult.rows.length === 0) {
+        await client.query("ROLLBACK");
+        return null;
+      }
+
+      const roundsResult = await client.query<Round>(
+        `SELECT * FROM rounds WHERE session_id = $1 ORDER BY round_number ASC`,
+        [sessionId]
+      );
+
+      await client.query("COMMIT");
+      console.log(`Session with ID ${sessionId} rescheduled to ${start}.`);
+      return { ...sessionResult.rows[0], rounds: roundsResult.rows };
+    } catch (error) {
+      await client.query("ROLLBACK");
+      console.error("Error rescheduling session:", error);
+      throw new Error("Failed to reschedule session.");
+    } finally {
+      client.release();
+    }
+  }
+
   /**
    * Retrieves all sessions.
    * @returns A list of all sessions.
@@ -0,0 +1,160 @@
+import { Pool, PoolClient } from "pg";
+import { PLAYER_STATUS, Session, UserSessionResult } from "../types";
+import { resolvePrizePolicyConfig } from "../prize/PrizePolicy";
+
+export default class UserStatsService {
+  private db: Pool;
+
+  constructor(db: Pool) {
+    this.db = db;
+  }
+
+  /**
+   * Records every seated participant's result for a completed session and applies it to
+   * their lifetime stats (winnings credited, entry fee debited) in one transaction.
+   * Winnings are the prizes allocated to the player, whatever the status of their
+   * airdrops: results are recorded when the session ends, before payouts confirm.
+   * Sessions that were already recorded are skipped, so this is safe to call again.
+   * @param sessionId - The session ID.
+   * @returns The number of users whose stats were updated.
+   */
+  async recordSessionResults(sessionId: number): Promise<number> {
+    const client = await this.db.connect();
+    try {
+      await client.query("BEGIN");
+      const updated = await this.applySessionResults(client, sessionId);
+      await client.query("COMMIT");
+
+      console.log(
+        `Recorded session ${sessionId} results for ${updated} users.`
+      );
+      return updated;
+    } catch (error) {
+      await client.query("ROLLBACK");
+      console.error(`Error recording results for session ${sessionId}:`, error);
+      throw new Error("Failed to record session results.");
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Retrieves the per-session results of a user, newest first.
+   * @param walletAddress - The user's wallet address.
+   * @returns The user's session results.
+   */
+  async getUserSessionResults(
+    walletAddress: string
+  ): Promise<UserSessionResult[]> {
+    const result = await this.db.query<UserSessionResult>(
+      `SELECT * FROM user_session_results
+       WHERE wallet_address = $1
+       ORDER BY session_id DESC`,
+      [walletAddress]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Backfills results of completed sessions that were never recorded, then rebuilds
+   * every user's lifetime stats from the recorded history.
+   * @returns The number of sessions that were backfilled.
+   */
+  async recomputeFromHistory(): Promise<number> {
+    const client = await this.db.connect();
+    try {
+      await client.query("BEGIN");
+
+      const missing = await client.query<{ id: number }>(
+        `SELECT id FROM sessions
+         WHERE completed = TRUE
+           AND id NOT IN (SELECT DISTINCT session_id FROM user_session_results)
+         ORDER BY id ASC`
+      );
+
+      for (const { id } of missing.rows) {
+        await this.applySessionResults(client, id);
+      }
+
+      await client.query(
+        `UPDATE users SET total_winnings = 0, total_profits = 0`
+      );
+      await client.query(
+        `UPDATE users u
+         SET total_winnings = r.total_winnings, total_profits = r.total_profits
+         FROM (
+           SELECT wallet_address, SUM(winnings) AS total_winnings, SUM(profit) AS total_profits
+           FROM user_session_results
+           GROUP BY wallet_address
+         ) r
+         WHERE u.wallet_address = r.wallet_address`
+      );
+
+      await client.query("COMMIT");
+
+      console.log(
+        `Recomputed user stats (${missing.rows.length} sessions backfilled).`
+      );
+      return missing.rows.length;
+    } catch (error) {
+      await client.query("ROLLBACK");
+      console.error("Error recomputing user stats:", error);
+      throw new Error("Failed to recompute user stats.");
+    } finally {
+      client.release();
+    }
+  }
+
+  private async applySessionResults(
+    client: PoolClient,
+    sessionId: number
+  ): Promise<number> {
+    const sessionResult = await client.query<Session>(
+      `SELECT id, prize_policy FROM sessions WHERE id = $1`,
+      [sessionId]
+    );
+
+    const session = sessionResult.rows[0];
+    if (!session) {
+      console.warn(`Session with ID ${sessionId} not found.`);
+      return 0;
+    }
+
+    // Payouts are stored in base units, user stats in whole tokens. Every payout
+    // counts, as the allocation is final even while its airdrop is pending or failed
+    const { token_decimals } = resolvePrizePolicyConfig(session.prize_policy);
+
+    const result = await client.query(
+      `WITH results AS (
+         SELECT p.wallet_address, p.lobby_id, p.status,
+                p.total_rounds_played AS rounds_played,
+                s.entry_fee::numeric AS entry_fee,
+                COALESCE(SUM(po.amount), 0)::numeric / (10::numeric ^ $2::int) AS winnings
+         FROM players p
+         JOIN sessions s ON s.id = p.session_id
+         LEFT JOIN payouts po
+           ON po.session_id = p.session_id AND po.wallet_address = p.wallet_address
+         -- Only seated players played (and paid for) the session
+         WHERE p.session_id = $1 AND p.lobby_id IS NOT NULL AND p.status <> $3
+         GROUP BY p.wallet_address, p.lobby_id, p.status, p.total_rounds_played, s.entry_fee
+       ),
+       inserted AS (
+         INSERT INTO user_session_results (session_id, wallet_address, lobby_id, status, rounds_played, entry_fee, winnings, profit, created_at)
+         SELECT $1, wallet_address, lobby_id, status, rounds_played, entry_fee, winnings, winnings - entry_fee, (NOW() AT TIME ZONE 'UTC')
+         FROM results
+         ON CONFLICT (session_id, wallet_address) DO NOTHING
+         RETURNING wallet_address, winnings, profit
+       )
+       INSERT INTO users (wallet_address, total_winnings, total_profits, created_at)
+       SELECT wallet_address, winnings, profit, (NOW() AT TIME ZONE 'UTC')
+       FROM inserted
+       ON CONFLICT (wallet_address) DO UPDATE
+       SET total_winnings = users.total_winnings + EXCLUDED.total_winnings,
+           total_profits = users.total_profits + EXCLUDED.total_profits
+       RETURNING wallet_address`,
+      [sessionId, token_decimals, PLAYER_STATUS.WAITLISTED]
+    );
+
+    return result.rowCount ?? 0;
+  }
+}
@@ -0,0 +1,208 @@
+import { RealtimePublisher } from "../realtime/RealtimePublisher";
+import { publishEvent } from "../realtime/RealtimeEvents";
+import { RedisService } from "../redis/RedisService";
+import LobbyService from "./LobbyService";
+import PhaseService from "./PhaseService";
+import PresenceService from "./PresenceService";
+import ActionRejectedError from "../utils/ActionRejectedError";
+import {
+  LobbyStatus,
+  PHASE_ACTION,
+  PLAYER_STATUS,
+  PRESENCE_ACTIVITY,
+  Round,
+  VoteTally,
+  VOTE_CHOICE,
+} from "../types";
+
+export default class VotingService {
+  private redisService: RedisService;
+  private lobbyService: LobbyService;
+  private phaseService: PhaseService;
+  private presenceService: PresenceService;
+  private publisher: RealtimePublisher;
+  private votingKeyPrefix = "voting"; // Key prefix for votes
+
+  constructor(
+    redisService: RedisService,
+    lobbyService: LobbyService,
+    phaseService: PhaseService,
+    presenceService: PresenceService,
+    publisher: RealtimePublisher
+  ) {
+    this.redisService = redisService;
+    this.lobbyService = lobbyService;
+    this.phaseService = phaseService;
+    this.presenceService = presenceService;
+    this.publisher = publisher;
+  }
+
+  /**
+   * Casts a player's vote for a lobby and round. Each wallet can vote once per round.
+   * @param sessionId - The session ID.
+   * @param lobbyId - The lobby ID.
+   * @param round - The round being voted on.
+   * @param walletAddress - The voter's wallet address.
+   * @param choice - The vote.
+   * @returns The updated tally.
+   * @throws ActionRejectedError if the vote is outside the voting window or phase, the
+   * voter is not an active player of the lobby, or the wallet already voted this round.
+   */
+  async castVote(
+    sessionId: number,
+    lobbyId: number,
+    round: Round,
+    walletAddress: string,
+    choice: VOTE_CHOICE
+  ): Promise<VoteTally> {
+    if (!Object.values(VOTE_CHOICE).includes(choice)) {
+      throw new ActionRejectedError(`Invalid vote choice: ${choice}`);
+    }
+
+    const now = Date.now();
+    if (
+      now < new Date(round.voting_start_time).getTime() ||
+      now > new Date(round.voting_end_time).getTime()
+    ) {
+      throw new ActionRejectedError(
+        `Voting for round ${round.round_number} is not open.`
+      );
+    }
+
+    const activeWallets = await this.getActiveWallets(sessionId, lobbyId);
+    if (!activeWallets.has(walletAddress)) {
+      throw new ActionRejectedError(
+        `Wallet ${walletAddress} is not an active player of lobby ${lobbyId}.`
+      );
+    }
+
+    await this.phaseService.assertPermission(
+      sessionId,
+      PHASE_ACTION.VOTE,
+      PLAYER_STATUS.ACTIVE
+    );
+
+    const votesKey = this.getVotesKey(sessionId, lobbyId, round.id);
+    const stored = await this.redisService.hsetnx(
+      votesKey,
+      walletAddress,
+      choice
+    );
+
+    if (stored === 0) {
+      throw new ActionRejectedError(
+        `Wallet ${walletAddress} already voted in round ${round.round_number}.`
+      );
+    }
+
+    await this.presenceService.recordActivity(
+      sessionId,
+      lobbyId,
+      walletAddress,
+      PRESENCE_ACTIVITY.VOTE
+    );
+
+    console.log(
+      `Wallet ${walletAddress} voted ${choice} in lobby ${lobbyId}, round ${round.round_number}.`
+    );
+
+    const tally = await this.tallyVotes(sessionId, lobbyId, round.id);
+
+    // Notify via the realtime publisher
+    await publishEvent(this.publisher, "voting-update", {
+      lobbyId,
+      roundNumber: round.round_number,
+      continue: tally.continue,
+      share: tally.share,
+    });
+
+    return tally;
+  }
+
+  /**
+   * Counts the votes of a lobby and round from the individual votes.
+   * Votes of wallets that are no longer active players are ignored.
+   * @param sessionId - The session ID.
+   * @param lobbyId - The lobby ID.
+   * @param roundId - The round ID.
+   * @returns The tally.
+   */
+  async tallyVotes(
+    sessionId: number,
+    lobbyId: number,
+    roundId: number
+  ): Promise<VoteTally> {
+    const votesKey = this.getVotesKey(sessionId, lobbyId, roundId);
+    const storedVotes = (await this.redisService.hgetall(votesKey)) || {};
+    const activeWallets = await this.getActiveWallets(sessionId, lobbyId);
+
+    const tally: VoteTally = { continue: 0, share: 0, total: 0, votes: {} };
+
+    for (const [walletAddress, choice] of Object.entries(storedVotes)) {
+      if (!activeWallets.has(walletAddress)) {
+        console.warn(
+          `Ignoring vote of inactive wallet ${walletAddress} in lobby ${lobbyId}.`
+        );
+        continue;
+      }
+
+      if (choice === VOTE_CHOICE.CONTINUE || choice === VOTE_CHOICE.SHARE) {
+        tally[choice]++;
+        tally.total++;
+        tally.votes[walletAddress] = choice;
+      }
+    }
+
+    console.log(`Voting results for ${votesKey}:`, {
+      continue: tally.continue,
+      share: tally.share,
+    });
+    return tally;
+  }
+
+  /**
+   * Clears the votes of a lobby and round.
+   * @param sessionId - The session ID.
+   * @param lobbyId - The lobby ID.
+   * @param roundId - The round ID.
+   */
+  async resetVotes(
+    sessionId: number,
+    lobbyId: number,
+    roundId: number
+  ): Promise<void> {
+    await this.redisService.del(this.getVotesKey(sessionId, lobbyId, roundId));
+  }
+
+  private async getActiveWallets(
+    sessionId: number,
+    lobbyId: number
+  ): Promise<Set<string>> {
+    const lobby = await this.lobbyService.getLobby(sessionId, lobbyId);
+
+    if (!lobby || lobby.status !== LobbyStatus.ACTIVE) {
+      return new Set();
+    }
+
+    return new Set(
+      lobby.players
+        .filter((player) => player.status === PLAYER_STATUS.ACTIVE)
+        .map((player) => player.wallet_address)
+    );
+  }
+
+  /**
+   * Generates the Redis key holding each wallet's vote for a lobby and round.
+   * @param sessionId - The session ID.
+   * @param lobbyId - The lobby ID.
+   * @param roundId - The round ID.
+   * @returns The Redis key.
+   */
+  private getVotesKey(
+    sessionId: number,
+    lobbyId: number,
+    roundId: number
+  ): string {
+    return `${this.votingKeyPrefix}:session:${sessionId}:lobby:${lobbyId}:round:${roundId}:votes`;
+  }
+}
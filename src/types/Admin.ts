@@ -0,0 +1,24 @@
+import { Lobby } from "./Lobby";
+import { PhaseState } from "./Phase";
+import { Session } from "./Session";
+import { SessionProgress } from "./SessionEvent";
+
+export type ValidationResult<T> =
+  | { valid: true; value: T }
+  | { valid: false; errors: string[] }; // One message per invalid field
+
+export interface RescheduleSessionRequest {
+  start_time: string; // New start time (ISO 8601 string); rounds and end time move with it
+}
+
+export interface SessionOverview {
+  session: Session; // The session with its rounds and players
+  running: boolean; // Whether the worker is monitoring the session
+  progress: SessionProgress | null; // Last event the worker processed
+  phase: PhaseState; // Current phase
+}
+
+export interface LobbyOverview {
+  phase: PhaseState; // Current phase of the session
+  lobbies: Lobby[]; // Lobbies with their players
+}
@@ -0,0 +1,32 @@
+export enum CIRCUIT_STATE {
+  CLOSED = "closed", // Requests flow, failures are counted
+  OPEN = "open", // Requests fail fast until the cooldown ends
+  HALF_OPEN = "half_open", // A limited number of probe requests decide whether to close
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures that open the circuit
+  cooldownMs: number; // Time an open circuit waits before probing
+  maxCooldownMs: number; // Upper bound of the cooldown, doubled each time a probe fails
+  successThreshold: number; // Successful probes that close a half-open circuit
+  halfOpenMaxRequests: number; // Probes allowed in flight while half-open
+}
+
+export interface CircuitHealth {
+  endpoint: string; // Endpoint key the circuit guards
+  state: CIRCUIT_STATE; // Current state
+  consecutive_failures: number; // Failures since the last success
+  total_requests: number; // Requests let through since startup
+  total_failures: number; // Failed requests since startup
+  last_error?: string; // Description of the most recent failure
+  last_failure_at?: string; // ISO date string of the most recent failure
+  opened_at?: string; // ISO date string of when the circuit last opened
+  retry_at?: string; // ISO date string of when an open circuit starts probing
+}
+
+export interface CircuitStateChange {
+  endpoint: string; // Endpoint key the circuit guards
+  from: CIRCUIT_STATE; // Previous state
+  to: CIRCUIT_STATE; // New state
+  health: CircuitHealth; // Health after the change
+}
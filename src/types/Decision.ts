@@ -1,6 +1,9 @@
+import { PlayerActivity } from "./Presence";
+
 export interface AIResponse {
-  response: any[];
-  success: boolean; // Wallet addresses of eliminated players
+  response: Elimination[]; // Players to eliminate (checked by the elimination validator)
+  success: boolean; // Whether a decision was made
+  strategy?: ELIMINATION_STRATEGY; // Local strategy that produced the decision (AI when unset)
 }
 
 export interface LobbyData {
@@ -11,9 +14,43 @@ export interface LobbyData {
     timestamp: string;
   }[];
   remaining_players: string[];
+  activity: PlayerActivity[]; // Round activity of the remaining players
 }
 
 export interface RoundDecision {
+  agentId: string;
   sessionId: number;
+  roundNumber: number;
+  maxRounds: number;
+  roundStartTime: string;
   lobbies: LobbyData[];
 }
+
+export interface Elimination {
+  participant: string; // Wallet address of the eliminated player
+  reason?: string; // AI's reason for the elimination (optional)
+}
+
+export interface EliminationDecision {
+  eliminations: Elimination[]; // Validated eliminations, in AI order
+  rejected: { entry: unknown; reason: string }[]; // Entries dropped by validation
+  issues: string[]; // Problems found with the response as a whole
+}
+
+export interface EliminationLimits {
+  max_eliminations_per_round?: number; // Absolute cap per lobby and round
+  max_elimination_percent?: number; // Cap as a share of the lobby's active players (0-100)
+}
+
+export enum ELIMINATION_STRATEGY {
+  AI = "ai", // The AI decides from the forum messages
+  SEEDED_RANDOM = "seeded_random", // Reproducible random pick
+  FEWEST_MESSAGES = "fewest_messages", // Players who posted the least
+  LEAST_RECENT_ACTIVITY = "least_recent_activity", // Players who posted least recently
+}
+
+export interface EliminationStrategyConfig {
+  strategy: ELIMINATION_STRATEGY; // Primary strategy
+  fallback: ELIMINATION_STRATEGY; // Local strategy used when the primary one fails
+  eliminations_per_round: number; // Players eliminated per lobby by local strategies
+}
@@ -3,3 +3,70 @@ export type ForumMessage = {
   content: string; // The content of the message
   timestamp: string; // ISO timestamp for when the message was sent
 };
+
+export interface ForumOptions {
+  maxMessageLength: number; // Longest accepted message, after moderation
+  rateLimitMessages: number; // Messages a wallet may post per window and lobby
+  rateLimitWindowMs: number; // Length of the rate limit window
+}
+
+export interface ForumPostRequest {
+  session_id: number;
+  lobby_id: number;
+  content: string; // The message to post
+  wallet_address: string; // Wallet the client claims to own
+  timestamp: string; // Epoch ms when the client signed the request
+  signature: string; // Base58 Ed25519 signature of the post message by the wallet
+}
+
+export interface ModerationResult {
+  content: string; // Content to keep (possibly rewritten)
+  rejected?: string; // Reason the message is rejected
+}
+
+export interface ArchivedForumMessage {
+  id: number; // Unique archived message ID
+  session_id: number; // Foreign key to Session
+  lobby_id: number; // Lobby the message was posted in
+  round_number: number | null; // Round running when it was posted (null before the first round)
+  wallet_address: string; // Author's wallet address
+  content: string; // Message content after moderation
+  posted_at: string; // ISO date string of when the message was posted
+  archived_at: string; // ISO date string of when the message was archived
+}
+
+export enum TRANSCRIPT_FORMAT {
+  JSON = "json",
+  MARKDOWN = "markdown",
+}
+
+export type TranscriptEntry =
+  | {
+      type: "message";
+      timestamp: string; // ISO date string
+      round_number: number | null;
+      wallet_address: string;
+      content: string;
+    }
+  | {
+      type: "elimination";
+      timestamp: string; // ISO date string of the end of the elimination phase
+      round_number: number;
+      eliminated_players: string[];
+      remaining_players: string[];
+      comment?: unknown; // AI comment on the eliminations
+    }
+  | {
+      type: "voting";
+      timestamp: string; // ISO date string of the end of the voting phase
+      round_number: number;
+      continue_votes: number;
+      share_votes: number;
+      outcome?: string; // ROUND_OUTCOME of the lobby
+    };
+
+export interface LobbyTranscript {
+  session_id: number; // Session the lobby belongs to
+  lobby_id: number; // Lobby ID
+  entries: TranscriptEntry[]; // Messages and game events in chronological order
+}
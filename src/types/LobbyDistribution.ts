@@ -0,0 +1,15 @@
+export enum LOBBY_DISTRIBUTION_STRATEGY {
+  BALANCED = "balanced", // Fewest lobbies under the cap, sizes differ by at most one
+  SEQUENTIAL = "sequential", // Fill each lobby up to the cap before opening the next
+  MIN_SIZE_WAITLIST = "min_size_waitlist", // Balanced lobbies of a minimum size, rest waitlisted
+}
+
+export interface LobbyDistributionConfig {
+  strategy: LOBBY_DISTRIBUTION_STRATEGY; // How players are split into lobbies
+  min_lobby_size?: number; // Minimum lobby size (MIN_SIZE_WAITLIST only)
+}
+
+export interface LobbyDistribution<T> {
+  lobbies: T[][]; // Players of each lobby, in lobby order
+  waitlist: T[]; // Players that could not be seated
+}
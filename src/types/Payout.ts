@@ -0,0 +1,22 @@
+export interface Payout {
+  id: number; // Unique payout ID
+  session_id: number; // Foreign key to Session
+  lobby_id: number; // Lobby the prize was won in
+  wallet_address: string; // Winner's wallet address
+  amount: string; // Amount in token base units (BIGINT, returned as a string by pg)
+  idempotency_key: string; // Unique key sent with every airdrop attempt
+  status: PAYOUT_STATUS; // Current payout state
+  attempts: number; // Number of airdrop attempts so far
+  last_error?: string; // Error of the most recent failed attempt
+  next_attempt_at?: string; // ISO date string of the next retry
+  completed_at?: string; // ISO date string of the successful airdrop
+  created_at: string; // ISO date string for payout creation timestamp
+  updated_at: string; // ISO date string of the last status change
+}
+
+export enum PAYOUT_STATUS {
+  PENDING = "pending", // Waiting for its next airdrop attempt
+  PROCESSING = "processing", // Airdrop call in flight
+  COMPLETED = "completed", // Airdrop confirmed
+  FAILED = "failed", // Retries exhausted, needs manual reconciliation
+}
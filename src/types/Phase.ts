@@ -0,0 +1,26 @@
+import { SessionEventType } from "./SessionEvent";
+
+export enum GAME_PHASE {
+  WAITING = "waiting", // Before the first round and between rounds
+  AI_MESSAGE = "ai_message", // The AI addresses the lobbies
+  DISCUSSION = "discussion", // Players talk in the forum (ROUND_START–ROUND_END)
+  ELIMINATION = "elimination", // The AI decides the eliminations
+  VOTING = "voting", // Players vote to continue or share
+  ENDED = "ended", // The session is over
+}
+
+export enum PHASE_ACTION {
+  POST = "post", // Write to the lobby forum
+  VOTE = "vote", // Vote to continue or share
+}
+
+export interface PhaseState {
+  phase: GAME_PHASE; // Current phase
+  event: SessionEventType | null; // Last event the worker processed (null before the session starts)
+  round_number: number | null; // Round of that event (null for session events)
+}
+
+export interface PermissionDecision {
+  allowed: boolean; // Whether the action is allowed
+  reason?: string; // Why it isn't
+}
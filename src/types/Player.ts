@@ -4,12 +4,21 @@ export interface Player {
   wallet_address: string; // Foreign key to the User table
   joined_at: string; // ISO date string representing the join time
   eliminated_at?: string; // ISO date string for elimination (optional)
+  elimination_round?: number; // Round the player was eliminated in (optional)
+  lobby_id?: number; // Lobby the player was assigned to (optional)
   status: PLAYER_STATUS; // Player status in the session
   total_rounds_played: number; // Count of rounds the player has participated in
 }
 
+export interface PlayerTransitions {
+  eliminated?: string[]; // Wallets eliminated this round
+  survivors?: string[]; // Wallets still active after this round
+  winners?: string[]; // Wallets that won the lobby this round
+}
+
 export enum PLAYER_STATUS {
   ACTIVE = "active",
   ELIMINATED = "eliminated",
   WINNER = "winner",
+  WAITLISTED = "waitlisted", // Didn't fit in a lobby and never played
 }
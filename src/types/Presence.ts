@@ -0,0 +1,26 @@
+export interface PresenceOptions {
+  heartbeatTimeoutMs: number; // A wallet without a heartbeat for this long is offline
+}
+
+export enum PRESENCE_ACTIVITY {
+  MESSAGE = "messages", // Posted in the lobby forum
+  VOTE = "votes_cast", // Voted on continuing or sharing
+}
+
+export interface PlayerActivity {
+  wallet_address: string;
+  online: boolean; // Heartbeat received within the timeout
+  last_seen_at: string | null; // ISO date string of the last heartbeat or activity
+  online_ms: number; // Time online during the round
+  messages: number; // Forum messages posted during the round
+  votes_cast: number; // Votes cast during the round
+  afk: boolean; // Offline and inactive during the round
+}
+
+export interface HeartbeatRequest {
+  session_id: number;
+  lobby_id: number;
+  wallet_address: string; // Wallet the client claims to own
+  timestamp: string; // Epoch ms when the client signed the request
+  signature: string; // Base58 Ed25519 signature of the heartbeat message by the wallet
+}
@@ -0,0 +1,30 @@
+export enum PRIZE_SPLIT {
+  WINNER_TAKE_ALL = "winner_take_all", // Whole pool to the top winner
+  EVEN = "even", // Equal shares for every winner
+  WEIGHTED_BY_ROUNDS = "weighted_by_rounds", // All participants, weighted by rounds played
+}
+
+export enum PRIZE_REMAINDER {
+  HOUSE = "house", // Undivisible remainder is not paid out
+  FIRST_RECIPIENT = "first_recipient", // Remainder goes to the first recipient
+  SPREAD = "spread", // One base unit each to the first recipients
+}
+
+export interface PrizePolicyConfig {
+  house_fee_percent: number; // Share of the entry fees kept by the house (0-100)
+  token_decimals: number; // Decimals of the prize token
+  free_session_pool: string; // Fixed pool in base units when the entry fee is zero
+  split: PRIZE_SPLIT; // How the pool is divided
+  remainder: PRIZE_REMAINDER; // Who receives the rounding remainder
+}
+
+export interface PrizeParticipant {
+  wallet_address: string; // Participant's wallet address
+  rounds_played: number; // Rounds the participant took part in
+  is_winner: boolean; // Whether the participant won the lobby
+}
+
+export interface PrizeAllocation {
+  wallet_address: string; // Recipient's wallet address
+  amount: bigint; // Amount in token base units
+}
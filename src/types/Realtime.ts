@@ -0,0 +1,45 @@
+export enum REALTIME_TRANSPORT {
+  PUSHER = "pusher", // Hosted Pusher service
+  WEBSOCKET = "websocket", // Self-hosted WebSocket server
+  MEMORY = "memory", // In-memory recorder (tests and offline runs)
+}
+
+export interface RecordedRealtimeEvent {
+  channel: string; // Channel the event was published to
+  event: string; // Event name
+  data: unknown; // Payload
+  timestamp: string; // ISO date string of when it was published
+}
+
+export interface PresenceMember {
+  user_id: string; // Wallet address
+  user_info?: Record<string, unknown>;
+}
+
+export interface ChannelAuthorization {
+  auth: string; // Signature allowing the socket to join the channel
+  channel_data?: string; // JSON-encoded PresenceMember (presence channels only)
+}
+
+export interface ChannelAuthRequest {
+  socket_id: string; // Socket asking to join
+  channel_name: string; // `private-...` or `presence-...` channel
+  wallet_address: string; // Wallet the client claims to own
+  timestamp: string; // Epoch ms when the client signed the request
+  signature: string; // Base58 Ed25519 signature of the auth message by the wallet
+}
+
+// Messages clients send to the WebSocket server
+export type RealtimeClientMessage =
+  | { type: "subscribe"; channel: string; auth?: string; channel_data?: string }
+  | { type: "unsubscribe"; channel: string }
+  | { type: "ping" };
+
+// Messages the WebSocket server sends to clients
+export type RealtimeServerMessage =
+  | { type: "event"; channel: string; event: string; data: unknown }
+  | { type: "connected"; socketId: string }
+  | { type: "subscribed"; channel: string }
+  | { type: "unsubscribed"; channel: string }
+  | { type: "error"; message: string }
+  | { type: "pong" };
@@ -0,0 +1,209 @@
+import { CircuitStateChange } from "./CircuitBreaker";
+import { AIResponse, Elimination } from "./Decision";
+import { GAME_PHASE } from "./Phase";
+import { SessionEventType } from "./SessionEvent";
+import { VOTE_CHOICE, VOTE_DECIDED_BY } from "./Vote";
+
+// Payloads of the "sessions" channel, shared by every client
+
+export interface SessionAnnouncedPayload {
+  sessionId: number;
+  name: string;
+  startTime: string; // ISO date string
+  endTime: string; // ISO date string
+}
+
+export interface SessionCancelledPayload {
+  sessionId: number;
+  cancelledAt: string; // ISO date string
+}
+
+// Payloads of the "session-{sessionId}" channels
+
+export interface SessionStartPayload {
+  sessionId: number;
+  startTime: string; // ISO date string
+}
+
+export interface SessionEndPayload {
+  sessionId: number;
+  endTime: string; // ISO date string
+}
+
+export interface PhaseChangedPayload {
+  sessionId: number;
+  phase: GAME_PHASE;
+  previousPhase: GAME_PHASE;
+  roundNumber: number | null; // Null for session events
+  event: SessionEventType; // Event that changed the phase
+}
+
+export interface RoundCreatedPayload {
+  sessionId: number;
+  roundNumber: number;
+  startTime: string; // ISO date string
+  endTime: string; // ISO date string
+}
+
+export interface AiDecisionPayload {
+  sessionId: number;
+  roundId: number;
+  aiDecision: string;
+}
+
+export interface AiMessageStartPayload {
+  sessionId: number;
+  roundNumber: number;
+  aiMessageStart: string; // ISO date string
+  aiMessageEnd: string; // ISO date string
+}
+
+export interface RoundPhasePayload {
+  sessionId: number;
+  roundNumber: number;
+  message?: string;
+}
+
+export interface RoundStartPayload {
+  sessionId: number;
+  roundNumber: number;
+  startTime: string; // ISO date string
+}
+
+export interface VotingStartPayload {
+  sessionId: number;
+  roundNumber: number;
+  votingStartTime: string; // ISO date string
+  votingEndTime: string; // ISO date string
+}
+
+export interface LobbyCreatedPayload {
+  sessionId: number;
+  lobbyId: number;
+  players: string[]; // Wallet addresses
+}
+
+export interface LobbyWaitlistPayload {
+  sessionId: number;
+  players: string[]; // Wallet addresses that didn't fit in a lobby
+}
+
+// Payloads of the "private-lobby-{lobbyId}" channels
+
+export interface LobbyUpdatePayload {
+  sessionId: number;
+  lobbyId: number;
+  message: string;
+}
+
+export interface ForumMessagePayload {
+  lobbyId: number;
+  userPublicKey: string; // Author's wallet address
+  content: string;
+  timestamp: string; // ISO date string
+}
+
+export interface ForumClearPayload {
+  lobbyId: number;
+  message: string;
+}
+
+export interface VotingUpdatePayload {
+  lobbyId: number;
+  roundNumber: number;
+  continue: number;
+  share: number;
+}
+
+export interface RoundDecisionPayload {
+  lobbyId: number;
+  decision: AIResponse;
+}
+
+export interface GameEndPayload {
+  lobbyId: number;
+  message: string;
+  winner: string; // Wallet address
+}
+
+export interface EliminationStartPayload {
+  lobbyId: number;
+  eliminatedPlayers: Elimination[];
+}
+
+export interface EliminationEndPayload {
+  lobbyId: number;
+  message: string;
+  remainingParticipants: string[]; // Wallet addresses
+}
+
+export interface VotingResultPayload {
+  lobbyId: number;
+  result: VOTE_CHOICE;
+  decidedBy: VOTE_DECIDED_BY;
+  reason: string;
+  winners?: string[]; // Wallet addresses sharing the prize
+}
+
+// Payloads of the "private-player-{wallet}" channels
+
+export interface PlayerEliminatedPayload {
+  wallet: string; // Eliminated player's wallet address
+  sessionId: number;
+  lobbyId: number;
+  roundNumber: number;
+  reason?: string; // Why the AI eliminated the player
+}
+
+export interface PlayerWonPayload {
+  wallet: string; // Winner's wallet address
+  sessionId: number;
+  lobbyId: number;
+  amount: string; // Tokens won, in base units
+}
+
+export interface PayoutConfirmedPayload {
+  wallet: string; // Winner's wallet address
+  payoutId: number;
+  sessionId: number;
+  lobbyId: number;
+  amount: string; // Tokens airdropped, in base units
+}
+
+/**
+ * Payload of every realtime event, keyed by event name.
+ * The JSON schema for clients is generated from this interface (`npm run generate:event-schema`).
+ */
+export interface RealtimeEventPayloads {
+  "session-created": SessionAnnouncedPayload;
+  "new-session": SessionAnnouncedPayload;
+  "session-rescheduled": SessionAnnouncedPayload;
+  "session-cancelled": SessionCancelledPayload;
+  "session-start": SessionStartPayload;
+  "session-end": SessionEndPayload;
+  "phase-changed": PhaseChangedPayload;
+  "round-created": RoundCreatedPayload;
+  "ai-decision": AiDecisionPayload;
+  "ai-message-start": AiMessageStartPayload;
+  "ai-message-end": RoundPhasePayload;
+  "round-start": RoundStartPayload;
+  "round-end": RoundPhasePayload;
+  "voting-start": VotingStartPayload;
+  "lobby-created": LobbyCreatedPayload;
+  "lobby-waitlist": LobbyWaitlistPayload;
+  "lobby-update": LobbyUpdatePayload;
+  "forum-message": ForumMessagePayload;
+  "forum-clear": ForumClearPayload;
+  "voting-update": VotingUpdatePayload;
+  "round-decision": RoundDecisionPayload;
+  "game-end": GameEndPayload;
+  "elimination-start": EliminationStartPayload;
+  "elimination-end": EliminationEndPayload;
+  "voting-result": VotingResultPayload;
+  "player-eliminated": PlayerEliminatedPayload;
+  "player-won": PlayerWonPayload;
+  "payout-confirmed": PayoutConfirmedPayload;
+  "circuit-state-changed": CircuitStateChange;
+}
+
+export type RealtimeEventName = keyof RealtimeEventPayloads;
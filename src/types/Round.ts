@@ -18,8 +18,66 @@ export interface Round {
   created_at: string; // ISO date string for round creation timestamp
 }
 
+export interface RoundTimelineConfig {
+  initial_wait_ms: number; // Wait between the session start and the first round
+  ai_message_ms: number; // AI message phase of each round
+  discussion_ms?: number | null; // Discussion phase of each round (fills the session window when unset)
+  elimination_ms: number; // Elimination phase of each round
+  voting_ms: number; // Voting phase of each round
+}
+
+// Phase timestamps of a round, in the order they happen (ISO date strings)
+export type RoundSchedule = Pick<
+  Round,
+  | "round_number"
+  | "ai_message_start"
+  | "ai_message_end"
+  | "start_time"
+  | "end_time"
+  | "elimination_start"
+  | "elimination_end"
+  | "voting_start_time"
+  | "voting_end_time"
+>;
+
 export enum AI_DECISION {
   CONTINUE = "continue",
   SHARE = "share",
   END = "end",
 }
+
+export enum ROUND_OUTCOME {
+  CONTINUE = "continue", // Lobby voted to play another round
+  SHARE = "share", // Lobby voted to end and share the prize
+  LAST_STANDING = "last_standing", // Only one player survived the elimination
+}
+
+export interface RoundLobbyResult {
+  id: number; // Unique result ID
+  session_id: number; // Foreign key to Session
+  round_id: number; // Foreign key to Round
+  round_number: number; // Sequential number of the round within the session
+  lobby_id: number; // Lobby the result belongs to
+  ai_response?: unknown; // Raw AI elimination response
+  eliminated_players?: string[]; // Wallets eliminated this round
+  elimination_comment?: unknown; // AI comment on the eliminations
+  continue_votes?: number; // Votes to continue
+  share_votes?: number; // Votes to share the prize
+  outcome?: ROUND_OUTCOME; // How the round ended for the lobby
+  remaining_players?: string[]; // Wallets still in the game after the round
+  created_at: string; // ISO date string for result creation timestamp
+  updated_at: string; // ISO date string of the last update
+}
+
+export type RoundLobbyResultUpdate = Partial<
+  Pick<
+    RoundLobbyResult,
+    | "ai_response"
+    | "eliminated_players"
+    | "elimination_comment"
+    | "continue_votes"
+    | "share_votes"
+    | "outcome"
+    | "remaining_players"
+  >
+>;
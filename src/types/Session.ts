@@ -1,6 +1,10 @@
-import { Round } from "./Round";
+import { Round, RoundTimelineConfig } from "./Round";
 import { Player } from "./Player";
 import { GameStatus } from "./GameStatus"; // Assuming `GameStatus` is a shared type
+import { PrizePolicyConfig } from "./Prize";
+import { LobbyDistributionConfig } from "./LobbyDistribution";
+import { VotingRules } from "./Vote";
+import { EliminationLimits, EliminationStrategyConfig } from "./Decision";
 
 export interface Session {
   id: number; // Unique session ID
@@ -11,6 +15,14 @@ export interface Session {
   start_time: string; // ISO date string representing session start time
   end_time: string; // ISO date string representing session end time
   created_at: string; // ISO date string for session creation timestamp
+  prize_policy?: Partial<PrizePolicyConfig> | null; // Prize policy overrides (defaults when unset)
+  lobby_seed?: string | null; // Seed of the lobby shuffle (set when lobbies are distributed)
+  lobby_distribution?: LobbyDistributionConfig | null; // Lobby distribution strategy (balanced when unset)
+  voting_rules?: Partial<VotingRules> | null; // Voting rule overrides (defaults when unset)
+  elimination_limits?: EliminationLimits | null; // Caps on AI eliminations per round (optional)
+  elimination_strategy?: Partial<EliminationStrategyConfig> | null; // Elimination strategy (AI with local fallback when unset)
+  round_timeline?: Partial<RoundTimelineConfig> | null; // Phase durations of the rounds (defaults when unset)
+  cancelled_at?: string | null; // ISO date string of when an admin cancelled the session
   rounds?: Round[]; // Associated rounds (optional, for detailed responses)
   players?: Player[]; // Associated players (optional, for detailed responses)
   game_status?: GameStatus; // Derived game status (optional, for detailed responses)
@@ -23,4 +35,11 @@ export interface CreateSessionRequest {
   max_total_players: number; // Maximum number of players allowed in the session
   start_time: string; // Start time of the session (ISO 8601 string)
   end_time: string; // End time of the session (ISO 8601 string)
+  prize_policy?: Partial<PrizePolicyConfig>; // Prize policy overrides (optional)
+  lobby_seed?: string; // Seed of the lobby shuffle (optional, generated when missing)
+  lobby_distribution?: LobbyDistributionConfig; // Lobby distribution strategy (optional)
+  voting_rules?: Partial<VotingRules>; // Voting rule overrides (optional)
+  elimination_limits?: EliminationLimits; // Caps on AI eliminations per round (optional)
+  elimination_strategy?: Partial<EliminationStrategyConfig>; // Elimination strategy (optional)
+  round_timeline?: Partial<RoundTimelineConfig>; // Phase durations of the rounds (optional)
 }
@@ -0,0 +1,41 @@
+import { Round } from "./Round";
+
+export type SessionEventType =
+  | "SESSION_START"
+  | "AI_MESSAGE_START"
+  | "AI_MESSAGE_END"
+  | "ROUND_START"
+  | "ROUND_END"
+  | "ELIMINATION_START"
+  | "ELIMINATION_END"
+  | "VOTING_START"
+  | "VOTING_END"
+  | "SESSION_END";
+
+// Processing order for events scheduled at the same instant
+export const SESSION_EVENT_ORDER: SessionEventType[] = [
+  "SESSION_START",
+  "AI_MESSAGE_START",
+  "AI_MESSAGE_END",
+  "ROUND_START",
+  "ROUND_END",
+  "ELIMINATION_START",
+  "ELIMINATION_END",
+  "VOTING_START",
+  "VOTING_END",
+  "SESSION_END",
+];
+
+export interface SessionEvent {
+  type: SessionEventType;
+  time: number; // Scheduled time (in milliseconds since epoch)
+  round?: Round; // Round the event belongs to (absent for session events)
+}
+
+export interface SessionProgress {
+  session_id: number; // Foreign key to Session
+  last_event_type: SessionEventType; // Last event fully processed by the worker
+  last_round_number: number | null; // Round of the last event (null for session events)
+  last_event_time: string; // ISO date string of the last event's scheduled time
+  updated_at: string; // ISO date string of the last progress write
+}
@@ -1,6 +1,19 @@
 export interface User {
   wallet_address: string; // Primary key (unique identifier for the user)
-  total_winnings: number; // Total winnings in tokens
+  total_winnings: number; // Total prizes allocated, in tokens (including unconfirmed airdrops)
   total_profits: number; // Total net profit (winnings - entry fees)
   created_at: string; // ISO date string for user creation timestamp
 }
+
+export interface UserSessionResult {
+  id: number; // Unique result ID
+  session_id: number; // Foreign key to Session
+  wallet_address: string; // Foreign key to User
+  lobby_id?: number; // Lobby the user played in (optional)
+  status: string; // Final player status in the session
+  rounds_played: number; // Rounds the user took part in
+  entry_fee: string; // Entry fee paid, in tokens (NUMERIC, returned as a string by pg)
+  winnings: string; // Prizes allocated, in tokens (including unconfirmed airdrops)
+  profit: string; // Winnings minus entry fee, in tokens
+  created_at: string; // ISO date string for result creation timestamp
+}
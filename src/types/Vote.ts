@@ -0,0 +1,57 @@
+export enum VOTE_CHOICE {
+  CONTINUE = "continue", // Play another round
+  SHARE = "share", // End the game and share the prize
+}
+
+export interface VoteTally {
+  continue: number; // Valid votes to continue
+  share: number; // Valid votes to share the prize
+  total: number; // Valid votes cast
+  votes: { [walletAddress: string]: VOTE_CHOICE }; // Valid vote of each voter
+}
+
+export enum VOTE_TIE_BREAK {
+  CONTINUE = "continue", // Ties continue the game
+  SHARE = "share", // Ties share the prize
+  AI = "ai", // The AI decides ties
+}
+
+export enum VOTE_NON_VOTER_DEFAULT {
+  ABSTAIN = "abstain", // Non-voters are not counted
+  CONTINUE = "continue", // Non-voters count as voting to continue
+  SHARE = "share", // Non-voters count as voting to share
+}
+
+export interface VotingRules {
+  quorum_percent: number; // Minimum turnout of active players (0-100) for the vote to count
+  share_threshold_percent: number; // Share of counted votes (0-100, inclusive) needed to share
+  tie_break: VOTE_TIE_BREAK; // How ties are decided
+  non_voter_default: VOTE_NON_VOTER_DEFAULT; // How players who didn't vote are counted
+  afk_as_abstain: boolean; // AFK non-voters abstain and don't count towards the quorum
+}
+
+export enum VOTE_DECIDED_BY {
+  QUORUM_NOT_MET = "quorum_not_met", // Turnout too low, the game continues
+  THRESHOLD_MET = "threshold_met", // Share reached the required majority
+  THRESHOLD_NOT_MET = "threshold_not_met", // Share fell short of the required majority
+  TIE_BREAK = "tie_break", // Equal votes, decided by the tie-break rule
+}
+
+export interface VotingDecision {
+  result: VOTE_CHOICE; // The outcome for the lobby
+  decided_by: VOTE_DECIDED_BY; // The rule that decided the outcome
+  reason: string; // Human-readable explanation
+  continue: number; // Counted votes to continue (including non-voter defaults)
+  share: number; // Counted votes to share (including non-voter defaults)
+  turnout_percent: number; // Votes cast relative to eligible players (active, minus AFK ones when they abstain)
+}
+
+export interface VoteRequest {
+  session_id: number;
+  lobby_id: number;
+  round_number: number; // Round the vote is for
+  choice: VOTE_CHOICE;
+  wallet_address: string; // Wallet the client claims to own
+  timestamp: string; // Epoch ms when the client signed the request
+  signature: string; // Base58 Ed25519 signature of the vote message by the wallet
+}
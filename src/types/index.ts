@@ -7,3 +7,14 @@ export * from "./Sacrifice";
 export * from "./GameStatus";
 export * from "./Forum";
 export * from "./Decision";
+export * from "./SessionEvent";
+export * from "./Payout";
+export * from "./Prize";
+export * from "./LobbyDistribution";
+export * from "./Vote";
+export * from "./CircuitBreaker";
+export * from "./Phase";
+export * from "./Presence";
+export * from "./Realtime";
+export * from "./RealtimeEvents";
+export * from "./Admin";
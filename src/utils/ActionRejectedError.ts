@@ -0,0 +1,10 @@
+/**
+ * Thrown when a game rule refuses a player's action, as opposed to a failure of
+ * the service itself. Callers facing the player can report its message.
+ */
+export default class ActionRejectedError extends Error {
+  constructor(message?: string) {
+    super(message);
+    this.name = "ActionRejectedError";
+  }
+}
@@ -1,48 +1,291 @@
+import crypto from "crypto";
+import CircuitBreaker from "./CircuitBreaker";
+
+export type ApiError =
+  | { type: "network"; message: string } // Request never got a response
+  | { type: "timeout"; timeoutMs: number } // Aborted after the per-call timeout
+  | { type: "http"; status: number; statusText: string; body: string } // Non-2xx response
+  | { type: "parse"; message: string; body: string } // Response body isn't valid JSON
+  | { type: "circuit_open"; endpoint: string; retryAt: string | null }; // Failed fast, the endpoint is down
+
 export interface ApiResponse<T> {
   data?: T;
-  error?: string;
+  error?: ApiError;
+}
+
+export type ApiAuth =
+  | { type: "bearer"; token: string }
+  | { type: "hmac"; secret: string; keyId?: string };
+
+export interface ApiClientOptions {
+  timeoutMs: number; // Per-attempt timeout
+  retries: number; // Extra attempts for idempotent calls
+  retryBaseDelayMs: number; // Backoff before the first retry, doubled on each retry
+  retryMaxDelayMs: number; // Upper bound of the backoff
+  auth?: ApiAuth;
+  circuitBreaker?: CircuitBreaker; // Fails calls fast while their endpoint is down
+}
+
+export interface RequestOptions {
+  timeoutMs?: number; // Overrides the client's timeout for this call
+  retries?: number; // Overrides the client's retries for this call
+  idempotent?: boolean; // Allows retrying a non-GET call (e.g. one carrying an idempotency key)
+  headers?: Record<string, string>;
 }
 
+const DEFAULT_OPTIONS: ApiClientOptions = {
+  timeoutMs: 10000,
+  retries: 2,
+  retryBaseDelayMs: 500,
+  retryMaxDelayMs: 5000,
+};
+
 class ApiClient {
   private baseUrl: string;
+  private options: ApiClientOptions;
 
-  constructor(baseUrl: string) {
+  constructor(baseUrl: string, options: Partial<ApiClientOptions> = {}) {
     this.baseUrl = baseUrl;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
   }
 
   private async request<T>(
+    method: string,
+    endpoint: string,
+    body?: any,
+    options: RequestOptions = {}
+  ): Promise<ApiResponse<T>> {
+    const idempotent = options.idempotent ?? method === "GET";
+    const retries = idempotent ? options.retries ?? this.options.retries : 0;
+    const payload = body === undefined ? undefined : JSON.stringify(body);
+
+    let response: ApiResponse<T> = {};
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      if (attempt > 0) {
+        const delay = this.getRetryDelay(attempt);
+        console.warn(
+          `Retrying ${method} ${endpoint} in ${delay}ms (attempt ${attempt + 1} of ${retries + 1}):`,
+          describeApiError(response.error!)
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+
+      response = await this.guardedAttempt<T>(
+        method,
+        endpoint,
+        payload,
+        options
+      );
+      if (!response.error || !isRetryable(response.error)) {
+        return response;
+      }
+    }
+
+    return response;
+  }
+
+  /**
+   * Runs one attempt through the circuit breaker of the endpoint, if any.
+   * Only failures that point at an unhealthy backend count against the circuit.
+   */
+  private async guardedAttempt<T>(
+    method: string,
+    endpoint: string,
+    payload: string | undefined,
+    options: RequestOptions
+  ): Promise<ApiResponse<T>> {
+    const breaker = this.options.circuitBreaker;
+    if (!breaker) {
+      return this.attempt<T>(method, endpoint, payload, options);
+    }
+
+    const circuitKey = getCircuitKey(endpoint);
+    if (!breaker.tryAcquire(circuitKey)) {
+      const retryAt = breaker.getRetryAt(circuitKey);
+      return {
+        error: {
+          type: "circuit_open",
+          endpoint: circuitKey,
+          retryAt: retryAt === null ? null : new Date(retryAt).toISOString(),
+        },
+      };
+    }
+
+    const response = await this.attempt<T>(method, endpoint, payload, options);
+    if (response.error && isRetryable(response.error)) {
+      breaker.recordFailure(circuitKey, describeApiError(response.error));
+    } else {
+      breaker.recordSuccess(circuitKey);
+    }
+
+    return response;
+  }
+
+  private async attempt<T>(
+    method: string,
     endpoint: string,
-    options: RequestInit = {}
+    payload: string | undefined,
+    options: RequestOptions
   ): Promise<ApiResponse<T>> {
+    const timeoutMs = options.timeoutMs ?? this.options.timeoutMs;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
     try {
       const response = await fetch(`${this.baseUrl}${endpoint}`, {
-        ...options,
+        method,
+        body: payload,
+        signal: controller.signal,
         headers: {
           "Content-Type": "application/json",
+          ...this.getAuthHeaders(method, endpoint, payload),
           ...options.headers,
         },
       });
 
+      const text = await response.text();
+
       if (!response.ok) {
-        return { error: `Error ${response.status}: ${response.statusText}` };
+        return {
+          error: {
+            type: "http",
+            status: response.status,
+            statusText: response.statusText,
+            body: text,
+          },
+        };
       }
 
-      const data = (await response.json()) as T;
-      return { data };
+      try {
+        return { data: (text ? JSON.parse(text) : undefined) as T };
+      } catch (error: any) {
+        return {
+          error: { type: "parse", message: error.message, body: text },
+        };
+      }
     } catch (error: any) {
-      return { error: error.message || "Unknown error" };
+      if (controller.signal.aborted) {
+        return { error: { type: "timeout", timeoutMs } };
+      }
+      return {
+        error: { type: "network", message: error.message || "Unknown error" },
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Builds the authentication headers of a request.
+   * HMAC requests sign `timestamp.method.endpoint.body` with SHA-256.
+   */
+  private getAuthHeaders(
+    method: string,
+    endpoint: string,
+    payload: string | undefined
+  ): Record<string, string> {
+    const auth = this.options.auth;
+
+    if (auth?.type === "bearer") {
+      return { Authorization: `Bearer ${auth.token}` };
     }
+
+    if (auth?.type === "hmac") {
+      const timestamp = Date.now().toString();
+      const signature = crypto
+        .createHmac("sha256", auth.secret)
+        .update(`${timestamp}.${method}.${endpoint}.${payload ?? ""}`)
+        .digest("hex");
+
+      return {
+        "X-Timestamp": timestamp,
+        "X-Signature": signature,
+        ...(auth.keyId ? { "X-Key-Id": auth.keyId } : {}),
+      };
+    }
+
+    return {};
+  }
+
+  /**
+   * Calculates the delay before a retry: exponential backoff with full jitter.
+   * @param attempt - The retry number (1 for the first retry).
+   * @returns The delay in milliseconds.
+   */
+  private getRetryDelay(attempt: number): number {
+    const cap = Math.min(
+      this.options.retryMaxDelayMs,
+      this.options.retryBaseDelayMs * 2 ** (attempt - 1)
+    );
+    return Math.round(Math.random() * cap);
+  }
+
+  async get<T>(
+    endpoint: string,
+    options?: RequestOptions
+  ): Promise<ApiResponse<T>> {
+    return this.request<T>("GET", endpoint, undefined, options);
+  }
+
+  async post<T>(
+    endpoint: string,
+    body: any,
+    options?: RequestOptions
+  ): Promise<ApiResponse<T>> {
+    return this.request<T>("POST", endpoint, body, options);
   }
+}
 
-  async get<T>(endpoint: string): Promise<ApiResponse<T>> {
-    return this.request<T>(endpoint);
+/**
+ * Whether a failed call may succeed when repeated: network errors, timeouts,
+ * rate limiting and server errors. Client errors and bad bodies won't.
+ */
+function isRetryable(error: ApiError): boolean {
+  switch (error.type) {
+    case "network":
+    case "timeout":
+      return true;
+    case "http":
+      return error.status === 429 || error.status >= 500;
+    case "parse":
+    case "circuit_open":
+      return false;
   }
+}
+
+/**
+ * Groups the endpoints of one route under one circuit by replacing numeric and
+ * UUID path segments, e.g. `/<agentId>/roundAnnouncement/5` → `/:id/roundAnnouncement/:id`.
+ */
+function getCircuitKey(endpoint: string): string {
+  const uuid = /^[0-9a-f]{8}(-[0-9a-f]{4}){3}-[0-9a-f]{12}$/i;
+
+  return endpoint
+    .split("?")[0]
+    .split("/")
+    .map((segment) =>
+      /^\d+$/.test(segment) || uuid.test(segment) ? ":id" : segment
+    )
+    .join("/");
+}
 
-  async post<T>(endpoint: string, body: any): Promise<ApiResponse<T>> {
-    return this.request<T>(endpoint, {
-      method: "POST",
-      body: JSON.stringify(body),
-    });
+/**
+ * Formats an API error as a single line for logs and stored error messages.
+ * @param error - The error.
+ * @returns The description.
+ */
+export function describeApiError(error: ApiError): string {
+  switch (error.type) {
+    case "network":
+      return `Network error: ${error.message}`;
+    case "timeout":
+      return `Timed out after ${error.timeoutMs}ms`;
+    case "http":
+      return `Error ${error.status}: ${error.statusText}${error.body ? ` ${error.body}` : ""}`;
+    case "parse":
+      return `Invalid JSON response: ${error.message}`;
+    case "circuit_open":
+      return `Circuit for ${error.endpoint} is open${error.retryAt ? ` until ${error.retryAt}` : ""}`;
   }
 }
 
@@ -0,0 +1,205 @@
+import {
+  CIRCUIT_STATE,
+  CircuitBreakerOptions,
+  CircuitHealth,
+  CircuitStateChange,
+} from "../types";
+
+interface Circuit {
+  health: CircuitHealth;
+  consecutiveSuccesses: number; // Successful probes while half-open
+  inFlightProbes: number; // Probes let through while half-open
+  cooldownMs: number; // Cooldown of the current open period
+  retryAt: number; // Epoch ms when an open circuit starts probing
+}
+
+const DEFAULT_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  cooldownMs: 30 * 1000,
+  maxCooldownMs: 5 * 60 * 1000,
+  successThreshold: 1,
+  halfOpenMaxRequests: 1,
+};
+
+/**
+ * Tracks the health of each endpoint and fails requests fast while an endpoint is down.
+ */
+class CircuitBreaker {
+  private options: CircuitBreakerOptions;
+  private circuits = new Map<string, Circuit>();
+  private listeners: ((change: CircuitStateChange) => void)[] = [];
+
+  constructor(options: Partial<CircuitBreakerOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Registers a listener called on every state change.
+   * @param listener - The listener.
+   */
+  onStateChange(listener: (change: CircuitStateChange) => void): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Asks whether a request to an endpoint may go out. Every allowed request must be
+   * followed by `recordSuccess` or `recordFailure`.
+   * @param endpoint - The endpoint key.
+   * @returns Whether the request is allowed.
+   */
+  tryAcquire(endpoint: string): boolean {
+    const circuit = this.getCircuit(endpoint);
+
+    if (
+      circuit.health.state === CIRCUIT_STATE.OPEN &&
+      Date.now() >= circuit.retryAt
+    ) {
+      this.transition(endpoint, circuit, CIRCUIT_STATE.HALF_OPEN);
+    }
+
+    if (circuit.health.state === CIRCUIT_STATE.OPEN) {
+      return false;
+    }
+
+    if (circuit.health.state === CIRCUIT_STATE.HALF_OPEN) {
+      if (circuit.inFlightProbes >= this.options.halfOpenMaxRequests) {
+        return false;
+      }
+      circuit.inFlightProbes++;
+    }
+
+    circuit.health.total_requests++;
+    return true;
+  }
+
+  /**
+   * Records a successful request.
+   * @param endpoint - The endpoint key.
+   */
+  recordSuccess(endpoint: string): void {
+    const circuit = this.getCircuit(endpoint);
+    circuit.health.consecutive_failures = 0;
+
+    if (circuit.health.state === CIRCUIT_STATE.HALF_OPEN) {
+      circuit.inFlightProbes = Math.max(0, circuit.inFlightProbes - 1);
+      circuit.consecutiveSuccesses++;
+
+      if (circuit.consecutiveSuccesses >= this.options.successThreshold) {
+        circuit.cooldownMs = this.options.cooldownMs;
+        this.transition(endpoint, circuit, CIRCUIT_STATE.CLOSED);
+      }
+    }
+  }
+
+  /**
+   * Records a failed request, opening the circuit once the threshold is reached.
+   * A failed probe reopens the circuit with a doubled cooldown.
+   * @param endpoint - The endpoint key.
+   * @param error - Description of the failure.
+   */
+  recordFailure(endpoint: string, error: string): void {
+    const circuit = this.getCircuit(endpoint);
+    circuit.health.consecutive_failures++;
+    circuit.health.total_failures++;
+    circuit.health.last_error = error;
+    circuit.health.last_failure_at = new Date().toISOString();
+
+    if (circuit.health.state === CIRCUIT_STATE.HALF_OPEN) {
+      circuit.inFlightProbes = Math.max(0, circuit.inFlightProbes - 1);
+      circuit.cooldownMs = Math.min(
+        this.options.maxCooldownMs,
+        circuit.cooldownMs * 2
+      );
+      this.open(endpoint, circuit);
+    } else if (
+      circuit.health.state === CIRCUIT_STATE.CLOSED &&
+      circuit.health.consecutive_failures >= this.options.failureThreshold
+    ) {
+      this.open(endpoint, circuit);
+    }
+  }
+
+  /**
+   * Returns when an open circuit starts letting probes through.
+   * @param endpoint - The endpoint key.
+   * @returns The epoch ms, or null when the circuit isn't open.
+   */
+  getRetryAt(endpoint: string): number | null {
+    const circuit = this.circuits.get(endpoint);
+    return circuit?.health.state === CIRCUIT_STATE.OPEN ? circuit.retryAt : null;
+  }
+
+  /**
+   * Returns the health of every endpoint seen so far.
+   * @returns The health of each endpoint.
+   */
+  getHealth(): CircuitHealth[] {
+    return [...this.circuits.values()].map((circuit) => ({
+      ...circuit.health,
+    }));
+  }
+
+  private open(endpoint: string, circuit: Circuit): void {
+    circuit.retryAt = Date.now() + circuit.cooldownMs;
+    circuit.health.opened_at = new Date().toISOString();
+    circuit.health.retry_at = new Date(circuit.retryAt).toISOString();
+    this.transition(endpoint, circuit, CIRCUIT_STATE.OPEN);
+  }
+
+  private transition(
+    endpoint: string,
+    circuit: Circuit,
+    to: CIRCUIT_STATE
+  ): void {
+    const from = circuit.health.state;
+    circuit.health.state = to;
+    circuit.consecutiveSuccesses = 0;
+    circuit.inFlightProbes = 0;
+
+    if (to !== CIRCUIT_STATE.OPEN) {
+      delete circuit.health.retry_at;
+    }
+
+    const log = to === CIRCUIT_STATE.OPEN ? console.warn : console.log;
+    log(`Circuit for ${endpoint} changed from ${from} to ${to}.`);
+
+    const change: CircuitStateChange = {
+      endpoint,
+      from,
+      to,
+      health: { ...circuit.health },
+    };
+    for (const listener of this.listeners) {
+      try {
+        listener(change);
+      } catch (error) {
+        console.error("Circuit state listener failed:", error);
+      }
+    }
+  }
+
+  private getCircuit(endpoint: string): Circuit {
+    let circuit = this.circuits.get(endpoint);
+
+    if (!circuit) {
+      circuit = {
+        health: {
+          endpoint,
+          state: CIRCUIT_STATE.CLOSED,
+          consecutive_failures: 0,
+          total_requests: 0,
+          total_failures: 0,
+        },
+        consecutiveSuccesses: 0,
+        inFlightProbes: 0,
+        cooldownMs: this.options.cooldownMs,
+        retryAt: 0,
+      };
+      this.circuits.set(endpoint, circuit);
+    }
+
+    return circuit;
+  }
+}
+
+export default CircuitBreaker;
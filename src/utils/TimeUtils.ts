@@ -50,6 +50,16 @@ export default class TimeUtils {
     return new Date().toISOString();
   }
 
+  /**
+   * Normalises an ISO date string with any UTC offset to UTC. Timestamp columns
+   * store the literal wall-clock time, so an offset left in the string would be dropped.
+   * @param date - The ISO date string.
+   * @returns The same instant as a UTC ISO string.
+   */
+  static toUtcISO(date: string): string {
+    return new Date(date).toISOString();
+  }
+
   /**
    * Adds a specified number of milliseconds to a timestamp.
    * @param timestamp - The starting timestamp (in milliseconds).
@@ -0,0 +1,120 @@
+import {
+  VoteTally,
+  VotingDecision,
+  VotingRules,
+  VOTE_CHOICE,
+  VOTE_DECIDED_BY,
+  VOTE_NON_VOTER_DEFAULT,
+  VOTE_TIE_BREAK,
+} from "../types";
+
+// Matches the behaviour before voting rules were configurable: simple majority,
+// ties (including nobody voting) continue
+export const DEFAULT_VOTING_RULES: VotingRules = {
+  quorum_percent: 0,
+  share_threshold_percent: 50,
+  tie_break: VOTE_TIE_BREAK.CONTINUE,
+  non_voter_default: VOTE_NON_VOTER_DEFAULT.ABSTAIN,
+  afk_as_abstain: false,
+};
+
+/**
+ * Fills unset options of a session's stored rules with the defaults.
+ * @param rules - The session's stored rules (may be partial or missing).
+ * @returns The complete rule set.
+ */
+export function resolveVotingRules(
+  rules?: Partial<VotingRules> | null
+): VotingRules {
+  return { ...DEFAULT_VOTING_RULES, ...rules };
+}
+
+/**
+ * Applies a session's voting rules to a lobby's tally.
+ * @param rules - The voting rules.
+ * @param tally - The valid votes of the round.
+ * @param activePlayers - Number of players allowed to vote.
+ * @param afkNonVoters - Number of active players who were AFK during the round and didn't vote.
+ * @param aiTieBreak - Asks the AI to decide a tie; a null answer continues the game.
+ * @returns The outcome and the rule that decided it.
+ */
+export async function decideVote(
+  rules: VotingRules,
+  tally: VoteTally,
+  activePlayers: number,
+  afkNonVoters: number,
+  aiTieBreak?: () => Promise<VOTE_CHOICE | null>
+): Promise<VotingDecision> {
+  // AFK players can be left out entirely, as if they had abstained
+  const eligibleVoters = rules.afk_as_abstain
+    ? Math.max(0, activePlayers - afkNonVoters)
+    : activePlayers;
+
+  const turnoutPercent =
+    eligibleVoters > 0
+      ? Math.round((tally.total / eligibleVoters) * 10000) / 100
+      : 0;
+
+  // Players who didn't vote count towards the configured default
+  const nonVoters = Math.max(0, eligibleVoters - tally.total);
+  const continueVotes =
+    tally.continue +
+    (rules.non_voter_default === VOTE_NON_VOTER_DEFAULT.CONTINUE ? nonVoters : 0);
+  const shareVotes =
+    tally.share +
+    (rules.non_voter_default === VOTE_NON_VOTER_DEFAULT.SHARE ? nonVoters : 0);
+
+  const decision = (
+    result: VOTE_CHOICE,
+    decidedBy: VOTE_DECIDED_BY,
+    reason: string
+  ): VotingDecision => ({
+    result,
+    decided_by: decidedBy,
+    reason,
+    continue: continueVotes,
+    share: shareVotes,
+    turnout_percent: turnoutPercent,
+  });
+
+  if (turnoutPercent < rules.quorum_percent) {
+    return decision(
+      VOTE_CHOICE.CONTINUE,
+      VOTE_DECIDED_BY.QUORUM_NOT_MET,
+      `Turnout of ${turnoutPercent}% is below the ${rules.quorum_percent}% quorum.`
+    );
+  }
+
+  if (continueVotes === shareVotes) {
+    let result: VOTE_CHOICE;
+
+    if (rules.tie_break === VOTE_TIE_BREAK.AI && aiTieBreak) {
+      result = (await aiTieBreak()) || VOTE_CHOICE.CONTINUE;
+    } else if (rules.tie_break === VOTE_TIE_BREAK.SHARE) {
+      result = VOTE_CHOICE.SHARE;
+    } else {
+      result = VOTE_CHOICE.CONTINUE;
+    }
+
+    return decision(
+      result,
+      VOTE_DECIDED_BY.TIE_BREAK,
+      `Tied at ${continueVotes}-${shareVotes}; the ${rules.tie_break} tie-break chose ${result}.`
+    );
+  }
+
+  const countedVotes = continueVotes + shareVotes;
+  if (shareVotes * 100 >= rules.share_threshold_percent * countedVotes) {
+    return decision(
+      VOTE_CHOICE.SHARE,
+      VOTE_DECIDED_BY.THRESHOLD_MET,
+      `${shareVotes} of ${countedVotes} votes to share reached the ${rules.share_threshold_percent}% threshold.`
+    );
+  }
+
+  return decision(
+    VOTE_CHOICE.CONTINUE,
+    VOTE_DECIDED_BY.THRESHOLD_NOT_MET,
+    `${shareVotes} of ${countedVotes} votes to share fell short of the ${rules.share_threshold_percent}% threshold.`
+  );
+}
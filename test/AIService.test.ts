@@ -0,0 +1,198 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import AIService from "../src/services/AIService";
+import ApiClient from "../src/utils/ApiClient";
+import { InMemoryPublisher } from "../src/realtime/InMemoryPublisher";
+import { AIResponse, LobbyData, RoundDecision } from "../src/types";
+
+type StubHandler = (body: any, res: http.ServerResponse) => void;
+
+const TIMEOUT_MS = 200;
+
+function lobby(lobbyId: number): LobbyData {
+  return {
+    lobby_id: lobbyId,
+    forum_messages: [
+      {
+        wallet_address: `wallet-${lobbyId}`,
+        content: `Hello from lobby ${lobbyId}`,
+        timestamp: "2026-01-01T00:00:05.000Z",
+      },
+    ],
+    remaining_players: [`wallet-${lobbyId}`],
+    activity: [
+      {
+        wallet_address: `wallet-${lobbyId}`,
+        online: true,
+        last_seen_at: "2026-01-01T00:00:05.000Z",
+        online_ms: 5000,
+        messages: 1,
+        votes_cast: 0,
+        afk: false,
+      },
+    ],
+  };
+}
+
+function decision(participant: string): AIResponse {
+  return { response: [{ participant }], success: true };
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+// Answers every per-lobby request with an elimination naming the lobby
+function fallbackDecision(body: any, res: http.ServerResponse) {
+  sendJson(res, 200, decision(`fallback-${body.lobbyId}`));
+}
+
+describe("AIService.getEliminationDecisions", () => {
+  const calls: { path: string; body: any }[] = [];
+  let batchHandler: StubHandler;
+  let server: http.Server;
+  let aiService: AIService;
+
+  const round: RoundDecision = {
+    agentId: "agent",
+    sessionId: 1,
+    roundNumber: 2,
+    maxRounds: 3,
+    roundStartTime: "2026-01-01T00:00:00.000Z",
+    lobbies: [lobby(1), lobby(2), lobby(3)],
+  };
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      let raw = "";
+      req.on("data", (chunk) => (raw += chunk));
+      req.on("end", () => {
+        const body = raw ? JSON.parse(raw) : undefined;
+        calls.push({ path: req.url || "", body });
+
+        if (req.url === "/decision") {
+          batchHandler(body, res);
+        } else if (req.url === "/decideEliminations") {
+          fallbackDecision(body, res);
+        } else {
+          sendJson(res, 404, { error: "Not found" });
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+    const { port } = server.address() as AddressInfo;
+    aiService = new AIService(
+      new ApiClient(`http://127.0.0.1:${port}`, {
+        timeoutMs: TIMEOUT_MS,
+        retries: 0,
+      }),
+      new InMemoryPublisher()
+    );
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    calls.length = 0;
+  });
+
+  const fallbackCalls = () =>
+    calls.filter((call) => call.path === "/decideEliminations");
+
+  const fallbackLobbyIds = () =>
+    fallbackCalls()
+      .map((call) => call.body.lobbyId)
+      .sort();
+
+  // Per-lobby requests carry the same lobby data as the batch request
+  const assertFallbackBodies = () => {
+    for (const call of fallbackCalls()) {
+      const requested = lobby(call.body.lobbyId);
+      assert.equal(call.body.sessionId, round.sessionId);
+      assert.equal(call.body.currentRound, round.roundNumber);
+      assert.deepEqual(call.body.forumMessages, requested.forum_messages);
+      assert.deepEqual(call.body.remainingPlayers, requested.remaining_players);
+      assert.deepEqual(call.body.activity, requested.activity);
+    }
+  };
+
+  it("matches batch decisions to lobbies by lobby_id", async () => {
+    // Out of order, with a lobby that wasn't requested
+    batchHandler = (body, res) => {
+      const lobbies = [...body.lobbies, lobby(99)].reverse();
+      sendJson(res, 200, {
+        lobbies: lobbies.map((requested: LobbyData) => ({
+          lobby_id: requested.lobby_id,
+          decision: decision(`batch-${requested.lobby_id}`),
+        })),
+      });
+    };
+
+    const responses = await aiService.getEliminationDecisions(round);
+
+    assert.deepEqual([...responses.keys()].sort(), [1, 2, 3]);
+    for (const lobbyId of [1, 2, 3]) {
+      assert.deepEqual(responses.get(lobbyId)?.data?.response, [
+        { participant: `batch-${lobbyId}` },
+      ]);
+    }
+    assert.deepEqual(fallbackLobbyIds(), []);
+  });
+
+  it("falls back per lobby for lobbies missing from the batch", async () => {
+    batchHandler = (_body, res) =>
+      sendJson(res, 200, {
+        lobbies: [{ lobby_id: 2, decision: decision("batch-2") }],
+      });
+
+    const responses = await aiService.getEliminationDecisions(round);
+
+    assert.deepEqual(responses.get(1)?.data?.response, [
+      { participant: "fallback-1" },
+    ]);
+    assert.deepEqual(responses.get(2)?.data?.response, [
+      { participant: "batch-2" },
+    ]);
+    assert.deepEqual(responses.get(3)?.data?.response, [
+      { participant: "fallback-3" },
+    ]);
+    assert.deepEqual(fallbackLobbyIds(), [1, 3]);
+    assertFallbackBodies();
+  });
+
+  it("falls back per lobby when the batch endpoint returns an error", async () => {
+    batchHandler = (_body, res) => sendJson(res, 500, { error: "Unavailable" });
+
+    const responses = await aiService.getEliminationDecisions(round);
+
+    for (const lobbyId of [1, 2, 3]) {
+      assert.deepEqual(responses.get(lobbyId)?.data?.response, [
+        { participant: `fallback-${lobbyId}` },
+      ]);
+    }
+    assert.deepEqual(fallbackLobbyIds(), [1, 2, 3]);
+    assertFallbackBodies();
+  });
+
+  it("falls back per lobby when the batch endpoint times out", async () => {
+    // Never answers, so the client aborts after its timeout
+    batchHandler = () => {};
+
+    const responses = await aiService.getEliminationDecisions(round);
+
+    for (const lobbyId of [1, 2, 3]) {
+      assert.deepEqual(responses.get(lobbyId)?.data?.response, [
+        { participant: `fallback-${lobbyId}` },
+      ]);
+    }
+    assert.deepEqual(fallbackLobbyIds(), [1, 2, 3]);
+    assertFallbackBodies();
+  });
+});